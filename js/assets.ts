@@ -0,0 +1,111 @@
+import type {EditorContent, Entity, EntityMap} from './index.ts';
+
+/**
+ * An asset of the content, referenced by the src of IMAGE and EMBEDDED_LINK entities.
+ */
+export interface Asset {
+	src: string;
+	/** Entities referencing the asset */
+	entities: Entity[];
+}
+
+/**
+ * Function returns the url an asset is written with, after uploading or rehashing it, or undefined to keep its src.
+ */
+export type AssetResolver = (asset: Asset) => Promise<string | undefined>;
+
+/**
+ * An asset rewritten by the resolver.
+ */
+export interface AssetManifestEntry {
+	src: string;
+	url: string;
+}
+
+export interface AssetOptions {
+	assetResolver?: AssetResolver;
+	/** Number of assets resolved at the same time, 4 by default */
+	assetConcurrency?: number;
+}
+
+/**
+ * Content with its assets rewritten, and the manifest of the rewritten assets in the order they're referenced.
+ */
+export interface ResolvedAssets {
+	content: EditorContent;
+	assets: AssetManifestEntry[];
+}
+
+const ASSET_ENTITY_TYPES = ['IMAGE', 'EMBEDDED_LINK'];
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Function returns the src of an entity if it's an asset.
+ */
+function getAssetSrc(entity: Entity | undefined): string | undefined {
+	if (!entity || !ASSET_ENTITY_TYPES.includes(entity.type)) return undefined;
+	const src = entity.data?.src;
+	return typeof src === 'string' && src !== '' ? src : undefined;
+}
+
+/**
+ * Function returns the assets of the content, one for each unique src.
+ */
+export function getAssets(editorContent: EditorContent): Asset[] {
+	const assets = new Map<string, Asset>();
+	Object.values(editorContent?.entityMap ?? {}).forEach(entity => {
+		const src = getAssetSrc(entity);
+		if (src === undefined) return;
+		const asset = assets.get(src);
+		if (asset) {
+			asset.entities.push(entity);
+		} else {
+			assets.set(src, {src, entities: [entity]});
+		}
+	});
+	return [...assets.values()];
+}
+
+/**
+ * Function maps items with an async function, running at most concurrency calls at the same time.
+ */
+async function mapConcurrently<T, R>(items: T[], concurrency: number, map: (item: T) => Promise<R>): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+	const work = async (): Promise<void> => {
+		while (next < items.length) {
+			const index = next;
+			next += 1;
+			results[index] = await map(items[index]);
+		}
+	};
+	const workers = Math.min(Math.max(1, Math.floor(concurrency) || 1), items.length);
+	await Promise.all(Array.from({length: workers}, work));
+	return results;
+}
+
+/**
+ * Function resolves the assets of the content and returns it with the src of their entities rewritten.
+ * The resolver is called once for each unique src, the content itself isn't changed.
+ * A rejected resolver rejects the returned promise.
+ */
+export async function resolveAssets(editorContent: EditorContent, options: AssetOptions = {}): Promise<ResolvedAssets> {
+	const {assetResolver, assetConcurrency = DEFAULT_CONCURRENCY} = options;
+	if (!assetResolver) return {content: editorContent, assets: []};
+	const urls = await mapConcurrently(getAssets(editorContent), assetConcurrency, async asset => {
+		const url = await assetResolver(asset);
+		return {src: asset.src, url: url ?? asset.src};
+	});
+	const assets = urls.filter(({src, url}) => url !== src);
+	if (assets.length === 0) return {content: editorContent, assets};
+	const rewritten = new Map(assets.map(({src, url}) => [src, url]));
+	const entityMap: EntityMap = {};
+	Object.entries(editorContent.entityMap).forEach(([key, entity]) => {
+		const src = getAssetSrc(entity);
+		entityMap[key] = src !== undefined && rewritten.has(src)
+			? {...entity, data: {...entity.data, src: rewritten.get(src)}}
+			: entity;
+	});
+	return {content: {...editorContent, entityMap}, assets};
+}
@@ -0,0 +1,129 @@
+import type {Block, Config} from './index.ts';
+import type {BlockAttributes} from './mdast.ts';
+import {forEach} from './common.ts';
+import {escapeHtml} from './escape.ts';
+
+/**
+ * How block data is written: as html attributes of a div around the block, as markdown attribute syntax
+ * (`{#id .class}` of Pandoc and markdown-it-attrs) or not at all. Code blocks get their attributes in both modes,
+ * after the language of the fence in attributes mode.
+ * draftToHtml writes the attributes on the element of the block in both html and attributes mode.
+ */
+export type BlockDataRendering = 'html' | 'attributes' | 'none';
+
+/**
+ * Function returns the attributes for the value of a block data key, or undefined to drop it.
+ */
+export type BlockDataMapper = (value: unknown, block: Block) => Partial<BlockAttributes> | undefined;
+
+/**
+ * Block data keys the library reads itself, only rendered when they're in the blockDataKeys allowlist.
+ */
+const RESERVED_BLOCK_DATA_KEYS = ['language', 'syntax', 'start'];
+
+const ATTRIBUTE_NAME = /^[A-Za-z_:][\w:.-]*$/;
+
+/**
+ * An id or class that can be written in the #id and .class shorthand of attribute syntax.
+ */
+const ATTRIBUTE_SHORTHAND = /^[^\s{}#.="]+$/;
+
+/**
+ * Function will return style string for a block.
+ */
+export function getBlockStyle(data: Record<string, string>): string {
+	let styles = '';
+	forEach(data, (key, value) => {
+		styles += `${key}:${value};`;
+	});
+	return styles;
+}
+
+/**
+ * Function returns the attributes of a block data key without a mapper.
+ * id and className are kept as such, other string and number values become style properties.
+ */
+function getDefaultAttributes(key: string, value: unknown): Partial<BlockAttributes> | undefined {
+	if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+	if (key === 'id') return {id: String(value)};
+	if (key === 'className' || key === 'class') return {classes: String(value).split(/\s+/).filter(Boolean)};
+	// Properties are written in css case, so textAlign and lineHeight are text-align and line-height
+	const property = key.replace(/[A-Z]/g, match => `-${match.toLowerCase()}`);
+	return /^[a-z-]+$/.test(property) ? {style: {[property]: String(value)}} : undefined;
+}
+
+/**
+ * Function returns the attributes rendered for the data of a block, or undefined if there are none.
+ * Only keys in the blockDataKeys allowlist are rendered when it's given, each through its mapper in blockDataMappers.
+ */
+export function getBlockAttributes(block: Block, config: Config): BlockAttributes | undefined {
+	if ((config?.blockDataRendering ?? 'none') === 'none' || !block.data) return undefined;
+	const allowed = config?.blockDataKeys;
+	const attributes: BlockAttributes = {classes: [], style: {}, attributes: {}};
+	forEach(block.data, (key, value) => {
+		if (allowed ? !allowed.includes(key) : RESERVED_BLOCK_DATA_KEYS.includes(key)) return;
+		const mapper = config?.blockDataMappers?.[key];
+		const mapped = mapper ? mapper(value, block) : getDefaultAttributes(key, value);
+		if (!mapped) return;
+		if (mapped.id !== undefined) attributes.id = mapped.id;
+		attributes.classes.push(...(mapped.classes ?? []));
+		Object.assign(attributes.style, mapped.style);
+		Object.assign(attributes.attributes, mapped.attributes);
+	});
+	const empty = attributes.id === undefined && attributes.classes.length === 0
+		&& Object.keys(attributes.style).length === 0 && Object.keys(attributes.attributes).length === 0;
+	return empty ? undefined : attributes;
+}
+
+/**
+ * Function returns the html attributes of a block, with a leading space, or an empty string.
+ */
+export function getAttributesHtml(attributes: BlockAttributes | undefined): string {
+	if (!attributes) return '';
+	const html: string[] = [];
+	if (attributes.id !== undefined) html.push(`id="${escapeHtml(attributes.id)}"`);
+	if (attributes.classes.length > 0) html.push(`class="${escapeHtml(attributes.classes.join(' '))}"`);
+	const style = getBlockStyle(attributes.style);
+	if (style) html.push(`style="${escapeHtml(style)}"`);
+	forEach(attributes.attributes, (key, value) => {
+		if (ATTRIBUTE_NAME.test(key)) html.push(`${key}="${escapeHtml(value)}"`);
+	});
+	return html.map(attribute => ` ${attribute}`).join('');
+}
+
+/**
+ * Function returns the markdown attribute syntax for a block, with a leading space, or an empty string.
+ * An id that can't be written as #id is quoted, classes that can't be written as .class are left out.
+ */
+export function getAttributesMarkdown(attributes: BlockAttributes | undefined): string {
+	if (!attributes) return '';
+	const markdown: string[] = [];
+	const {id} = attributes;
+	if (id !== undefined) markdown.push(ATTRIBUTE_SHORTHAND.test(id) ? `#${id}` : `id="${escapeHtml(id)}"`);
+	attributes.classes.forEach(name => {
+		if (ATTRIBUTE_SHORTHAND.test(name)) markdown.push(`.${name}`);
+	});
+	const style = getBlockStyle(attributes.style);
+	if (style) markdown.push(`style="${escapeHtml(style)}"`);
+	forEach(attributes.attributes, (key, value) => {
+		if (ATTRIBUTE_NAME.test(key)) markdown.push(`${key}="${escapeHtml(value)}"`);
+	});
+	return ` {${markdown.join(' ')}}`;
+}
+
+/**
+ * Function returns the markdown for the content of a block followed by its attributes, in attributes mode.
+ */
+export function addBlockAttributesMarkdown(attributes: BlockAttributes | undefined, content: string, config: Config): string {
+	return config?.blockDataRendering === 'attributes' ? content + getAttributesMarkdown(attributes) : content;
+}
+
+/**
+ * Function will add a <div> with the attributes of a block around its markdown in html mode, for block level styling.
+ * The markdown is set apart by blank lines, so it's still read as markdown inside the div,
+ * and the blank line after the div ends its html block.
+ */
+export function wrapBlockMarkdown(attributes: BlockAttributes | undefined, markdown: string, config: Config): string {
+	const html = config?.blockDataRendering === 'html' ? getAttributesHtml(attributes) : '';
+	return html ? `<div${html}>\n\n${markdown}\n\n</div>\n` : markdown;
+}
@@ -0,0 +1,323 @@
+/**
+ * Command-line tool converting raw draftjs EditorContent JSON to markdown.
+ *
+ *     deno run --allow-read --allow-write js/cli.ts [options] [file | directory | -]...
+ *
+ * JSON files, and the .json files in directory trees, are written as .md files next to them or in --out-dir.
+ * Content read from stdin, when no path or - is given, is written to stdout.
+ * The exit code is 0 when every file converts, 1 when a file fails or --check finds problems, and 2 for usage errors.
+ */
+import draftToMarkdown, {flavors, validateEditorContent} from './index.ts';
+import type {Config, EditorContent, HashConfig, ValidationIssue} from './index.ts';
+
+const USAGE = `Usage: cli.ts [options] [file | directory | -]...
+
+Converts raw draftjs EditorContent JSON to markdown.
+
+Options:
+  -o, --out-dir <dir>             Write the .md files in dir, keeping the tree of input directories
+  --check                         Only report validation problems, without writing anything
+  --config <file>                 JSON config, like customStyleTransform or blockTypesMapping
+  --flavor <name>                 ${Object.keys(flavors).join(', ')}
+  --hash-trigger <text>           Trigger of hashtags, # by default
+  --hash-separator <text>         Separator ending hashtags, a space by default
+  --empty-line-before-block       Separate blocks by an empty line
+  --format                        Separate blocks by an empty line keeping lists tight, and trim line ends
+  --wrap-column <column>          Format, wrapping paragraphs at column
+  --print-break-line-literal      Write newlines in blocks literally
+  --raw-css-inline-styles         Write style ranges with css as html
+  --heading-ids                   Give headings ids slugged from their text
+  --strict                        Fail on invalid content instead of repairing it
+  --ordered-list-numbering <numbering>
+  --markdown-escaping <escaping>
+  --hard-break-style <style>
+  --block-data-rendering <rendering>
+  --link-style <style>
+  --link-reference-ids <ids>
+  --offset-unit <unit>
+  -h, --help                      Show this help
+`;
+
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Flags setting a boolean of the config.
+ */
+const BOOLEAN_FLAGS: Record<string, keyof Config> = {
+	'empty-line-before-block': 'emptyLineBeforeBlock',
+	'print-break-line-literal': 'printBreakLineLiteral',
+	'raw-css-inline-styles': 'rawCssInlineStyles',
+	'heading-ids': 'headingIds',
+	strict: 'strict',
+};
+
+/**
+ * Flags setting an option of the config to one of its values.
+ */
+const CHOICE_FLAGS: Record<string, [keyof Config, string[]]> = {
+	flavor: ['flavor', Object.keys(flavors)],
+	'ordered-list-numbering': ['orderedListNumbering', ['sequential', 'ones']],
+	'markdown-escaping': ['markdownEscaping', ['contextual', 'strict', 'none']],
+	'hard-break-style': ['hardBreakStyle', ['spaces', 'backslash', 'html', 'newline']],
+	'block-data-rendering': ['blockDataRendering', ['html', 'attributes', 'none']],
+	'link-style': ['linkStyle', ['inline', 'reference', 'collapsed']],
+	'link-reference-ids': ['linkReferenceIds', ['numbered', 'slugged']],
+	'offset-unit': ['offsetUnit', ['code-point', 'utf-16']],
+};
+
+/**
+ * Error for arguments the tool can't run with, reported with the usage.
+ */
+export class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'UsageError';
+	}
+}
+
+export interface CliOptions {
+	paths: string[];
+	outDir?: string;
+	check: boolean;
+	help: boolean;
+	configFile?: string;
+	config: Config;
+	hashConfig: Partial<HashConfig>;
+}
+
+/**
+ * An input file, and the directory given for it whose tree is kept in --out-dir.
+ */
+interface InputFile {
+	path: string;
+	root?: string;
+}
+
+interface FileResult {
+	path: string;
+	error?: string;
+	issues: ValidationIssue[];
+}
+
+/**
+ * Function parses the arguments of the tool, throwing a UsageError for unknown flags or values.
+ */
+export function parseArgs(args: string[]): CliOptions {
+	const options: CliOptions = {paths: [], check: false, help: false, config: {}, hashConfig: {}};
+	const config = options.config as Record<string, unknown>;
+	for (let i = 0; i < args.length; i += 1) {
+		const arg = args[i];
+		if (arg === '-' || !arg.startsWith('-')) {
+			options.paths.push(arg);
+			continue;
+		}
+		const [flag, inline] = arg.replace(/^--?/, '').split(/=(.*)/s);
+		const getValue = (): string => {
+			const value = inline ?? args[(i += 1)];
+			if (value === undefined) throw new UsageError(`Missing value for ${arg}`);
+			return value;
+		};
+		if (Object.hasOwn(BOOLEAN_FLAGS, flag)) {
+			config[BOOLEAN_FLAGS[flag]] = true;
+		} else if (Object.hasOwn(CHOICE_FLAGS, flag)) {
+			const [key, choices] = CHOICE_FLAGS[flag];
+			const value = getValue();
+			if (!choices.includes(value)) throw new UsageError(`Invalid value ${value} for --${flag}, expected ${choices.join(', ')}`);
+			config[key] = value;
+		} else {
+			switch (flag) {
+				case 'o':
+				case 'out-dir':
+					options.outDir = getValue();
+					break;
+				case 'check':
+					options.check = true;
+					break;
+				case 'format':
+					options.config.format = {...options.config.format};
+					break;
+				case 'wrap-column': {
+					const value = getValue();
+					const wrapColumn = Number(value);
+					if (!Number.isInteger(wrapColumn) || wrapColumn < 1) throw new UsageError(`Invalid column ${value} for --wrap-column`);
+					options.config.format = {...options.config.format, wrapColumn};
+					break;
+				}
+				case 'config':
+					options.configFile = getValue();
+					break;
+				case 'hash-trigger':
+					options.hashConfig.trigger = getValue();
+					break;
+				case 'hash-separator':
+					options.hashConfig.separator = getValue();
+					break;
+				case 'h':
+				case 'help':
+					options.help = true;
+					break;
+				default:
+					throw new UsageError(`Unknown option ${arg}`);
+			}
+		}
+	}
+	return options;
+}
+
+/**
+ * Function returns the config of a JSON config file, with the options of the flags over it.
+ */
+async function readConfig(options: CliOptions): Promise<Config> {
+	if (!options.configFile) return options.config;
+	let config: unknown;
+	try {
+		config = JSON.parse(await Deno.readTextFile(options.configFile));
+	} catch (error) {
+		throw new UsageError(`Can't read config ${options.configFile}: ${(error as Error).message}`);
+	}
+	if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+		throw new UsageError(`Config ${options.configFile} isn't a JSON object`);
+	}
+	return {...config, ...options.config};
+}
+
+/**
+ * Function returns the path of an entry of a directory, with / as separator which every platform reads.
+ */
+function joinPath(directory: string, name: string): string {
+	return `${directory.replace(/[\\/]+$/, '')}/${name}`;
+}
+
+/**
+ * Function returns the directory of a path, or . for a path without one.
+ */
+function getDirectory(path: string): string {
+	const index = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'));
+	return index < 0 ? '.' : path.slice(0, index) || '/';
+}
+
+/**
+ * Function returns the .json files of a directory tree, sorted by path.
+ */
+async function getJsonFiles(directory: string): Promise<string[]> {
+	const files: string[] = [];
+	for await (const entry of Deno.readDir(directory)) {
+		const path = joinPath(directory, entry.name);
+		if (entry.isDirectory) {
+			files.push(...await getJsonFiles(path));
+		} else if (entry.isFile && /.\.json$/.test(entry.name)) {
+			files.push(path);
+		}
+	}
+	return files.sort();
+}
+
+/**
+ * Function returns the files of the paths given, directories are replaced by their .json files.
+ */
+async function getInputFiles(paths: string[]): Promise<InputFile[]> {
+	const files: InputFile[] = [];
+	for (const path of paths) {
+		const info = await Deno.stat(path).catch(() => undefined);
+		if (info?.isDirectory) {
+			files.push(...(await getJsonFiles(path)).map(file => ({path: file, root: path})));
+		} else {
+			// Missing files are reported with the results of the other files
+			files.push({path});
+		}
+	}
+	return files;
+}
+
+/**
+ * Function returns the path of the markdown written for an input file.
+ */
+function getOutputPath(file: InputFile, outDir: string | undefined): string {
+	// The extension is the last dot of the file name and what follows, unless the name starts with it
+	const markdownPath = (path: string): string => `${path.replace(/(?<=[^\\/])\.[^.\\/]*$/, '')}.md`;
+	if (outDir === undefined) return markdownPath(file.path);
+	// The files of a directory are joined to it, so their path in it follows the directory
+	const path = file.root === undefined
+		? file.path.split(/[\\/]/).pop() as string
+		: file.path.slice(file.root.replace(/[\\/]+$/, '').length + 1);
+	return joinPath(outDir, markdownPath(path));
+}
+
+/**
+ * Function returns the message of a validation issue, with the block it's in.
+ */
+function getIssueMessage(issue: ValidationIssue): string {
+	const block = issue.blockKey === undefined ? '' : ` (block ${issue.blockKey})`;
+	return `${issue.path}${block}: ${issue.reason}, ${issue.repair}`;
+}
+
+/**
+ * Function converts or checks the content of a file, and writes its markdown.
+ */
+async function processFile(file: InputFile, options: CliOptions, config: Config): Promise<FileResult> {
+	const result: FileResult = {path: file.path, issues: []};
+	try {
+		const text = file.path === '-' ? await new Response(Deno.stdin.readable).text() : await Deno.readTextFile(file.path);
+		const content = JSON.parse(text) as EditorContent;
+		if (options.check) {
+			result.issues = validateEditorContent(content, config.offsetUnit);
+			const count = result.issues.length;
+			if (count > 0) result.error = `${count} validation ${count === 1 ? 'problem' : 'problems'}`;
+			return result;
+		}
+		const markdown = draftToMarkdown(content, options.hashConfig, undefined, {
+			...config,
+			onValidationIssues: issues => {
+				result.issues = issues;
+			},
+		});
+		if (file.path === '-') {
+			await Deno.stdout.write(new TextEncoder().encode(markdown));
+		} else {
+			const output = getOutputPath(file, options.outDir);
+			await Deno.mkdir(getDirectory(output), {recursive: true});
+			await Deno.writeTextFile(output, markdown);
+		}
+	} catch (error) {
+		result.error = (error as Error).message;
+	}
+	return result;
+}
+
+/**
+ * Function runs the tool with its arguments and returns the exit code.
+ * Validation problems are printed for each file, followed by a summary of the files that failed.
+ */
+export async function main(args: string[]): Promise<number> {
+	let options: CliOptions;
+	let config: Config;
+	try {
+		options = parseArgs(args);
+		if (options.help) {
+			console.log(USAGE);
+			return 0;
+		}
+		config = await readConfig(options);
+	} catch (error) {
+		if (!(error instanceof UsageError)) throw error;
+		console.error(`${error.message}\n\n${USAGE}`);
+		return EXIT_USAGE;
+	}
+	const files = await getInputFiles(options.paths.length > 0 ? options.paths : ['-']);
+	const results: FileResult[] = [];
+	for (const file of files) {
+		const result = await processFile(file, options, config);
+		result.issues.forEach(issue => console.error(`${result.path}: ${getIssueMessage(issue)}`));
+		results.push(result);
+	}
+	const failed = results.filter(result => result.error !== undefined);
+	const passed = `${results.length - failed.length} of ${results.length} files`;
+	console.error(options.check ? `${passed} valid` : `Converted ${passed}`);
+	failed.forEach(result => console.error(`  ${result.path}: ${result.error}`));
+	return failed.length > 0 ? EXIT_FAILURE : 0;
+}
+
+if (import.meta.main) {
+	Deno.exit(await main(Deno.args));
+}
@@ -1,3 +1,5 @@
+import type {Block, Config, OffsetUnit} from './index.ts';
+
 /**
  * Utility function to execute callback for eack key->value pair.
  */
@@ -36,3 +38,108 @@ export function isList(blockType: string): boolean {
 		blockType === 'unordered-list-item' || blockType === 'ordered-list-item'
 	);
 }
+
+/**
+ * Function to check if the block is an atomic entity block.
+ */
+export function isAtomicBlock(block: Block): boolean {
+	// if (block.type === 'atomic' || (block.entityRanges.length > 0 && isEmptyString(block.text))) {
+	// eslint-disable-next-line @typescript-eslint/no-unsafe-call
+	if (block.entityRanges.length > 0 && isEmptyString(block.text)) {
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Function to check if the block is written as a fenced code block.
+ * This is the case for code-block blocks and blocks entirely in the CODE-BLOCK inline style.
+ */
+export function isCodeBlock(block: Block): boolean {
+	if (block.type === 'code-block') return true;
+	if (block.text.length === 0) return false;
+	const covered = new Array<boolean>(block.text.length).fill(false);
+	(block.inlineStyleRanges ?? [])
+		.filter(range => range.style === 'CODE-BLOCK')
+		.forEach(({offset, length}) => covered.fill(true, offset, offset + length));
+	return covered.every(Boolean);
+}
+
+/**
+ * Function returns a random block key in the format used by draftjs, not present in seenKeys.
+ * The new key is added to seenKeys.
+ */
+export function generateBlockKey(seenKeys: Set<string>): string {
+	let key: string;
+	do {
+		key = Math.floor(Math.random() * 36 ** 5).toString(36).padStart(5, '0');
+	} while (seenKeys.has(key));
+	seenKeys.add(key);
+	return key;
+}
+
+/**
+ * Function returns the string written after each block.
+ */
+export function getBlockSeparator(config: Config): string {
+	return config && config?.emptyLineBeforeBlock
+		? `${config?.printBreakLineLiteral ? `\\n\n\n` : `\n\n`}`
+		: `${config?.printBreakLineLiteral ? `\\n` : `\n`}`;
+}
+
+/**
+ * Function returns the length of a string in the given unit.
+ */
+export function getTextLength(text: string, offsetUnit: OffsetUnit): number {
+	if (offsetUnit === 'utf-16') return text.length;
+	let length = 0;
+	for (const _ of text) length += 1;
+	return length;
+}
+
+/**
+ * Function returns the UTF-16 offset of each code point offset in a string,
+ * including the offset of the end of the string.
+ */
+export function getCodePointOffsets(text: string): number[] {
+	const offsets = [0];
+	for (const ch of text) {
+		offsets.push(offsets[offsets.length - 1] + ch.length);
+	}
+	return offsets;
+}
+
+/**
+ * Function returns the block with its range offsets converted between code points and UTF-16 code units.
+ * Draft counts offsets in code points, while strings are indexed by code units.
+ */
+export function convertBlockOffsets(block: Block, to: OffsetUnit): Block {
+	const offsets = getCodePointOffsets(block.text);
+	if (offsets.length === block.text.length + 1) {
+		// No astral characters, the offsets are the same
+		return block;
+	}
+	let convert: (offset: number) => number;
+	if (to === 'utf-16') {
+		convert = offset => offsets[Math.min(offset, offsets.length - 1)];
+	} else {
+		const codePoints = new Map(offsets.map((offset, index) => [offset, index]));
+		// An offset inside a surrogate pair is moved to the start of the character
+		convert = offset => {
+			for (let i = offset; i >= 0; i -= 1) {
+				const codePoint = codePoints.get(i);
+				if (codePoint !== undefined) return codePoint;
+			}
+			return 0;
+		};
+	}
+	const convertRange = <R extends {offset: number; length: number}>(range: R): R => {
+		const offset = convert(range.offset);
+		return {...range, offset, length: convert(range.offset + range.length) - offset};
+	};
+	return {
+		...block,
+		inlineStyleRanges: block.inlineStyleRanges.map(convertRange),
+		entityRanges: block.entityRanges.map(convertRange),
+	};
+}
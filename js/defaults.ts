@@ -0,0 +1,63 @@
+import type {BlockTypesMapping, StyleTransform} from './index.ts';
+
+/**
+ * Mapping block-type to corresponding markdown symbol.
+ */
+export const defaultBlockTypesMapping: BlockTypesMapping = {
+	unstyled: '',
+	'header-one': '# ',
+	'header-two': '## ',
+	'header-three': '### ',
+	'header-four': '#### ',
+	'header-five': '##### ',
+	'header-six': '###### ',
+	'unordered-list-item': '- ',
+	'ordered-list-item': '1. ',
+	blockquote: '> ',
+	code: '    ',
+};
+
+/**
+ * Mapping inline style to the markdown delimiters wrapped around it.
+ * A string is used on both sides, a tuple is [left, right].
+ * CODE-BLOCK has no delimiters of its own, it's written as a code span or a fenced code block.
+ */
+export const defaultStyleTransform: StyleTransform = {
+	BOLD: '**',
+	ITALIC: '*',
+	UNDERLINE: '__',
+	STRIKETHROUGH: '~~',
+	CODE: '`',
+	BLOCKQUOTE: ['> ', ''],
+	SUPERSCRIPT: ['<sup>', '</sup>'],
+	SUBSCRIPT: ['<sub>', '</sub>'],
+};
+
+/**
+ * Mapping inline style to the html tags used when its markdown delimiters can't be read as emphasis,
+ * such as underscores inside a word.
+ */
+export const defaultHtmlStyleTransform: StyleTransform = {
+	BOLD: ['<strong>', '</strong>'],
+	ITALIC: ['<em>', '</em>'],
+	UNDERLINE: ['<u>', '</u>'],
+	STRIKETHROUGH: ['<del>', '</del>'],
+	CODE: ['<code>', '</code>'],
+};
+
+/**
+ * Mapping block-type to the html element written for it.
+ */
+export const defaultHtmlBlockTags: Record<string, string> = {
+	unstyled: 'p',
+	'header-one': 'h1',
+	'header-two': 'h2',
+	'header-three': 'h3',
+	'header-four': 'h4',
+	'header-five': 'h5',
+	'header-six': 'h6',
+	blockquote: 'blockquote',
+	atomic: 'figure',
+	section: 'section',
+	article: 'article',
+};
@@ -0,0 +1,169 @@
+import type {Block, HashConfig, Range} from './index.ts';
+import {escapeHtml} from './escape.ts';
+
+/**
+ * Template for the markdown of a detected match.
+ * In a string template `{text}` is replaced by the markdown of the matched text,
+ * `{0}` by the raw match, `{1}`, `{2}`... by its groups and `{name}` by its named groups.
+ */
+export type DetectorTemplate = string | ((match: RegExpExecArray, text: string) => string);
+
+/**
+ * A detector finds spans of plain text, like hashtags or bare urls, and writes them as markdown.
+ */
+export interface Detector {
+	name: string;
+	/** Pattern matching the spans, the global flag is added when missing */
+	pattern: RegExp;
+	template: DetectorTemplate;
+}
+
+export interface Detection extends Range {
+	detector: Detector;
+	match: RegExpExecArray;
+}
+
+const WORD = '[\\p{L}\\p{N}_]';
+
+/**
+ * Function returns a detector for hashtags, which end at the first character that can't be in a word.
+ * The tag without the # is group 1, so `[{text}](https://app/tags/{1})` links to the tag page.
+ */
+export function getHashtagDetector(template: DetectorTemplate): Detector {
+	return {
+		name: 'hashtag',
+		pattern: new RegExp(`(?<!${WORD}|[#&])#(${WORD}+)`, 'gu'),
+		template,
+	};
+}
+
+/**
+ * Function returns a detector for @mentions, with the name without the @ as group 1.
+ * Dots and dashes are kept only between word characters.
+ */
+export function getMentionDetector(template: DetectorTemplate): Detector {
+	return {
+		name: 'mention',
+		pattern: new RegExp(`(?<!${WORD}|[@.+-])@(${WORD}+(?:[.-]${WORD}+)*)`, 'gu'),
+		template,
+	};
+}
+
+/**
+ * Function returns a detector for bare http and https urls.
+ * Punctuation ending a url is left out, as it most likely ends the sentence.
+ */
+export function getUrlDetector(template: DetectorTemplate = '<{0}>'): Detector {
+	return {
+		name: 'url',
+		pattern: /(?<![\p{L}\p{N}_/])https?:\/\/[^\s<>]*[^\s<>.,:;!?'")\]*_~]/gu,
+		template,
+	};
+}
+
+/**
+ * Function returns a detector for bare email addresses.
+ */
+export function getEmailDetector(template: DetectorTemplate = '<{0}>'): Detector {
+	return {
+		name: 'email',
+		pattern: /(?<![\p{L}\p{N}_.+-])[\p{L}\p{N}_.+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu,
+		template,
+	};
+}
+
+function escapeRegExp(str: string): string {
+	return str.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Function returns the detector for the legacy HashConfig: a hashtag starts with the trigger
+ * at the start of the text or after the separator and runs up to the next separator.
+ * It's written as a link to itself.
+ */
+export function getLegacyHashtagDetector(hashConfig: HashConfig): Detector {
+	const trigger = escapeRegExp(hashConfig.trigger);
+	const separator = escapeRegExp(hashConfig.separator);
+	const body = separator ? `(?:(?!${separator})[^])+` : '[^]+';
+	return {
+		name: 'hashtag',
+		pattern: new RegExp(`(?<=^|${separator})${trigger}(${body})`, 'g'),
+		template: '[{text}]({text})',
+	};
+}
+
+/**
+ * Function returns the spans of the text of a block found by the detectors.
+ * Spans never overlap entity ranges, code or each other; of overlapping matches
+ * the one of the earlier detector in the list is kept.
+ */
+export function getDetections(block: Block, detectors: Detector[]): Detection[] {
+	const detections: Detection[] = [];
+	if (detectors.length === 0) return detections;
+	const taken = new Array<boolean>(block.text.length).fill(false);
+	block.entityRanges.forEach(({offset, length}) => taken.fill(true, offset, offset + length));
+	block.inlineStyleRanges.forEach(({offset, length, style}) => {
+		if (style === 'CODE' || style === 'CODE-BLOCK') taken.fill(true, offset, offset + length);
+	});
+	detectors.forEach(detector => {
+		const {source, flags} = detector.pattern;
+		const pattern = new RegExp(source, flags.includes('g') ? flags : `${flags}g`);
+		for (let match = pattern.exec(block.text); match; match = pattern.exec(block.text)) {
+			const offset = match.index;
+			const {length} = match[0];
+			if (length === 0) {
+				pattern.lastIndex += 1;
+				continue;
+			}
+			if (taken.slice(offset, offset + length).some(Boolean)) continue;
+			taken.fill(true, offset, offset + length);
+			detections.push({offset, length, detector, match});
+		}
+	});
+	return detections.sort((d1, d2) => d1.offset - d2.offset);
+}
+
+/**
+ * Function fills the placeholders of a string template with the text and the groups of a match.
+ * The groups are passed through escape.
+ */
+function fillTemplate(template: string, match: RegExpExecArray, text: string, escape = (value: string) => value): string {
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+		if (name === 'text') return text;
+		const value = match.groups?.[name] ?? match[Number(name)];
+		return value === undefined ? placeholder : escape(value);
+	});
+}
+
+/**
+ * Function returns the markdown of a detection, given the markdown of its text.
+ */
+export function getDetectionMarkdown(detection: Detection, text: string): string {
+	const {template} = detection.detector;
+	if (typeof template === 'function') return template(detection.match, text);
+	return fillTemplate(template, detection.match, text);
+}
+
+/**
+ * Function returns the html of a detection, given the html of its text.
+ * String templates of a markdown link or autolink are written as html links,
+ * the url of a link being filled with the matched text. Other templates are filled as they are.
+ */
+export function getDetectionHtml(detection: Detection, html: string): string {
+	const {template} = detection.detector;
+	const {match} = detection;
+	if (typeof template === 'function') return template(match, html);
+	const link = /^\[([^]*)\]\(([^]*)\)$/.exec(template);
+	if (link) {
+		const href = fillTemplate(link[2], match, match[0]);
+		return `<a href="${escapeHtml(href)}">${fillTemplate(link[1], match, html, escapeHtml)}</a>`;
+	}
+	const autolink = /^<([^]*)>$/.exec(template);
+	if (autolink) {
+		const url = fillTemplate(autolink[1], match, match[0]);
+		// Autolinks of email addresses link to mailto:
+		const href = /^[a-z][a-z\d+.-]*:/i.test(url) || !url.includes('@') ? url : `mailto:${url}`;
+		return `<a href="${escapeHtml(href)}">${escapeHtml(url)}</a>`;
+	}
+	return fillTemplate(template, match, html, escapeHtml);
+}
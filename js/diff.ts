@@ -0,0 +1,667 @@
+import type {Block, Config, CustomStyleTransform, EditorContent, EntityMap, InlineStyleRange} from './index.ts';
+import type {BlockContent, Code, Position, Root} from './mdast.ts';
+import {convertBlockOffsets, generateBlockKey, isAtomicBlock, isCodeBlock} from './common.ts';
+import {EditorContentError, repairEditorContent} from './validate.ts';
+import type {Plugin} from './plugins.ts';
+
+export type DiffMarkup = 'criticmarkup' | 'html';
+
+export type BlockChangeType = 'unchanged' | 'modified' | 'inserted' | 'deleted';
+
+/**
+ * What happened to a block between the revisions, modified and unchanged blocks have both keys.
+ */
+export interface BlockChange {
+	type: BlockChangeType;
+	oldKey?: string;
+	newKey?: string;
+}
+
+export interface DiffOptions {
+	/** How changes are marked: CriticMarkup by default, or html ins and del tags */
+	markup?: DiffMarkup;
+	/**
+	 * Similarity of the text of two blocks, from 0 to 1, from which blocks with keys missing
+	 * from the other revision are compared as the same block. 0.5 by default
+	 */
+	similarityThreshold?: number;
+	/** Config of the markdown written */
+	config?: Config;
+	/** Called with the changes of the blocks, in the order they're written */
+	onBlockChanges?: (changes: BlockChange[]) => void;
+}
+
+/**
+ * The content written for a diff: the blocks of both revisions merged, with the changes
+ * in modified blocks as inline styles, and the plugin and style transform marking them.
+ */
+export interface DiffContent {
+	content: EditorContent;
+	plugin: Plugin;
+	styleTransform: CustomStyleTransform;
+}
+
+/**
+ * Inline styles of the changes: insertions and deletions, and the old and new text of substitutions.
+ */
+type DiffStyle = 'DIFF-INSERT' | 'DIFF-DELETE' | 'DIFF-OLD' | 'DIFF-NEW';
+
+const DIFF_STYLE_TRANSFORMS: Record<DiffMarkup, Record<DiffStyle, [string, string]>> = {
+	criticmarkup: {
+		'DIFF-INSERT': ['{++', '++}'],
+		'DIFF-DELETE': ['{--', '--}'],
+		'DIFF-OLD': ['{~~', '~>'],
+		'DIFF-NEW': ['', '~~}'],
+	},
+	html: {
+		'DIFF-INSERT': ['<ins>', '</ins>'],
+		'DIFF-DELETE': ['<del>', '</del>'],
+		'DIFF-OLD': ['<del>', '</del>'],
+		'DIFF-NEW': ['<ins>', '</ins>'],
+	},
+};
+
+/**
+ * Largest table of the longest common subsequence of two sequences, beyond it the middle of the sequences isn't matched.
+ */
+const MAX_TABLE_SIZE = 4_000_000;
+
+/**
+ * A character of a block, compared along with the inline styles and the entity applying to it.
+ */
+interface Token {
+	text: string;
+	styles: string[];
+	/** Key of the entity in the entity map of its revision */
+	entityKey?: string;
+	/** Type, mutability and data of the entity, as compared */
+	entity?: string;
+}
+
+/**
+ * A character of a merged block, with its entity in the merged entity map and the change it's part of.
+ */
+interface MergedToken {
+	text: string;
+	styles: string[];
+	entityKey?: number;
+	diff?: DiffStyle;
+}
+
+type DiffOp =
+	| {type: 'equal'; index1: number; index2: number}
+	| {type: 'delete'; index1: number}
+	| {type: 'insert'; index2: number};
+
+type Side = 'old' | 'new';
+
+/**
+ * State of the merged content while it's built.
+ */
+interface MergeContext {
+	blocks: Block[];
+	entityMap: EntityMap;
+	/** Entity of the merged entity map of each entity of the revisions, by side and key */
+	entityKeys: Map<string, number>;
+	entityMaps: Record<Side, EntityMap>;
+	/** Keys of the blocks of both revisions and of the merged blocks, for keys made for merged blocks */
+	seenKeys: Set<string>;
+	writtenKeys: Set<string>;
+	/** Whole blocks inserted or deleted, by merged key */
+	wholeBlocks: Map<string, DiffStyle>;
+	changes: BlockChange[];
+}
+
+/**
+ * Function returns the pairs of indices of a longest common subsequence of two sequences, in order.
+ * The common prefix and suffix are matched first, then the middle unless its table exceeds MAX_TABLE_SIZE.
+ * Of the subsequences of the same length, the one leaving deletions before insertions is returned.
+ */
+function getCommonPairs(length1: number, length2: number, same: (index1: number, index2: number) => boolean): [number, number][] {
+	let prefix = 0;
+	while (prefix < length1 && prefix < length2 && same(prefix, prefix)) prefix += 1;
+	let suffix = 0;
+	while (suffix < length1 - prefix && suffix < length2 - prefix && same(length1 - suffix - 1, length2 - suffix - 1)) {
+		suffix += 1;
+	}
+	const pairs: [number, number][] = [];
+	for (let i = 0; i < prefix; i += 1) pairs.push([i, i]);
+	const rows = length1 - prefix - suffix;
+	const columns = length2 - prefix - suffix;
+	if (rows > 0 && columns > 0 && (rows + 1) * (columns + 1) <= MAX_TABLE_SIZE) {
+		// lengths[i * width + j] is the length of the common subsequence of the middles from i and j on
+		const width = columns + 1;
+		const lengths = new Uint32Array((rows + 1) * width);
+		for (let i = rows - 1; i >= 0; i -= 1) {
+			for (let j = columns - 1; j >= 0; j -= 1) {
+				lengths[i * width + j] = same(prefix + i, prefix + j)
+					? lengths[(i + 1) * width + j + 1] + 1
+					: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+			}
+		}
+		let i = 0;
+		let j = 0;
+		while (i < rows && j < columns) {
+			if (lengths[i * width + j] === lengths[(i + 1) * width + j]) {
+				i += 1;
+			} else if (lengths[i * width + j] === lengths[i * width + j + 1]) {
+				j += 1;
+			} else {
+				pairs.push([prefix + i, prefix + j]);
+				i += 1;
+				j += 1;
+			}
+		}
+	}
+	for (let i = suffix; i > 0; i -= 1) pairs.push([length1 - i, length2 - i]);
+	return pairs;
+}
+
+/**
+ * Function returns the operations turning a sequence into another, given the pairs of their common subsequence.
+ */
+function getDiffOps(length1: number, length2: number, pairs: [number, number][]): DiffOp[] {
+	const ops: DiffOp[] = [];
+	let index1 = 0;
+	let index2 = 0;
+	[...pairs, [length1, length2] as [number, number]].forEach(([pair1, pair2]) => {
+		for (; index1 < pair1; index1 += 1) ops.push({type: 'delete', index1});
+		for (; index2 < pair2; index2 += 1) ops.push({type: 'insert', index2});
+		if (pair1 < length1) ops.push({type: 'equal', index1: pair1, index2: pair2});
+		index1 = pair1 + 1;
+		index2 = pair2 + 1;
+	});
+	return ops;
+}
+
+/**
+ * Function returns the operations with the unchanged runs between two changes folded into the changes,
+ * when the run is no longer than the deletions or the insertions on each side of it.
+ * Characters a replaced word happens to share with the new one aren't kept apart, so the change reads as a whole.
+ */
+function mergeShortEqualities(ops: DiffOp[]): DiffOp[] {
+	type Run = {equal: boolean; ops: DiffOp[]};
+	let merged = ops;
+	let changed = true;
+	while (changed) {
+		changed = false;
+		const runs: Run[] = [];
+		merged.forEach(op => {
+			const last = runs[runs.length - 1];
+			if (last && last.equal === (op.type === 'equal')) {
+				last.ops.push(op);
+			} else {
+				runs.push({equal: op.type === 'equal', ops: [op]});
+			}
+		});
+		const getLength = (run: Run): number => Math.max(
+			run.ops.filter(op => op.type === 'delete').length,
+			run.ops.filter(op => op.type === 'insert').length,
+		);
+		runs.forEach((run, index) => {
+			if (!run.equal || index === 0 || index === runs.length - 1) return;
+			if (run.ops.length > getLength(runs[index - 1]) || run.ops.length > getLength(runs[index + 1])) return;
+			run.equal = false;
+			run.ops = run.ops.flatMap(op => (op.type === 'equal'
+				? [{type: 'delete', index1: op.index1}, {type: 'insert', index2: op.index2}] as DiffOp[]
+				: [op]));
+			changed = true;
+		});
+		// Changes next to each other are joined, deletions first
+		merged = [];
+		let changes: DiffOp[] = [];
+		const addChanges = (): void => {
+			merged.push(...changes.filter(op => op.type === 'delete'), ...changes.filter(op => op.type === 'insert'));
+			changes = [];
+		};
+		runs.forEach(run => {
+			if (run.equal) {
+				addChanges();
+				merged.push(...run.ops);
+			} else {
+				changes.push(...run.ops);
+			}
+		});
+		addChanges();
+	}
+	return merged;
+}
+
+/**
+ * Function returns the counts of the pairs of adjacent characters of a text.
+ */
+function getBigrams(text: string): Map<string, number> {
+	const bigrams = new Map<string, number>();
+	for (let i = 0; i + 1 < text.length; i += 1) {
+		const bigram = text.substring(i, i + 2);
+		bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+	}
+	return bigrams;
+}
+
+/**
+ * Function returns the similarity of two texts from 0 to 1, as the share of the pairs of adjacent characters they have in common.
+ */
+function getSimilarity(text1: string, text2: string, bigrams1: Map<string, number>, bigrams2: Map<string, number>): number {
+	if (text1 === text2) return 1;
+	let total = 0;
+	let common = 0;
+	bigrams1.forEach(count => (total += count));
+	bigrams2.forEach((count, bigram) => {
+		total += count;
+		common += Math.min(count, bigrams1.get(bigram) ?? 0);
+	});
+	return total === 0 ? 0 : (2 * common) / total;
+}
+
+/**
+ * Function returns the characters of a block, with offsets in UTF-16 code units, and what applies to them.
+ */
+function getTokens(block: Block, entityMap: EntityMap): Token[] {
+	const styles = Array.from({length: block.text.length}, (): string[] => []);
+	block.inlineStyleRanges.forEach(({offset, length, style}) => {
+		for (let i = offset; i < offset + length; i += 1) {
+			if (!styles[i].includes(style)) styles[i].push(style);
+		}
+	});
+	const entityKeys = new Array<string | undefined>(block.text.length);
+	block.entityRanges.forEach(({offset, length, key}) => entityKeys.fill(String(key), offset, offset + length));
+	const tokens: Token[] = [];
+	let offset = 0;
+	for (const ch of block.text) {
+		const entityKey = entityKeys[offset];
+		const entity = entityKey === undefined ? undefined : entityMap[entityKey];
+		tokens.push({
+			text: ch,
+			styles: styles[offset].sort(),
+			entityKey,
+			entity: entity && JSON.stringify([entity.type, entity.mutability, entity.data]),
+		});
+		offset += ch.length;
+	}
+	return tokens;
+}
+
+function sameToken(token1: Token, token2: Token): boolean {
+	return token1.text === token2.text
+		&& token1.entity === token2.entity
+		&& token1.styles.length === token2.styles.length
+		&& token1.styles.every((style, index) => style === token2.styles[index]);
+}
+
+/**
+ * Function returns true if the type, depth and data of the old and new block are the same.
+ */
+function sameBlockFormat(block1: Block, block2: Block): boolean {
+	return block1.type === block2.type
+		&& (block1.depth || 0) === (block2.depth || 0)
+		&& JSON.stringify(block1.data ?? {}) === JSON.stringify(block2.data ?? {});
+}
+
+/**
+ * Function returns true if the old and new tokens of a block, its type, depth and data are the same.
+ */
+function sameBlock(block1: Block, block2: Block, tokens1: Token[], tokens2: Token[]): boolean {
+	return sameBlockFormat(block1, block2)
+		&& tokens1.length === tokens2.length
+		&& tokens1.every((token, index) => sameToken(token, tokens2[index]));
+}
+
+/**
+ * Function returns the key of an entity of a revision in the merged entity map, adding it the first time.
+ */
+function getEntityKey(side: Side, key: string, context: MergeContext): number {
+	const id = `${side}:${key}`;
+	let entityKey = context.entityKeys.get(id);
+	if (entityKey === undefined) {
+		entityKey = context.entityKeys.size;
+		context.entityKeys.set(id, entityKey);
+		context.entityMap[entityKey] = context.entityMaps[side][key];
+	}
+	return entityKey;
+}
+
+/**
+ * Function returns the merged key of the entity of an unchanged character. The old and the new entity are the same
+ * entity of the merged entity map, so text inserted or deleted in an entity stays in it.
+ */
+function getSharedEntityKey(oldKey: string, newKey: string, context: MergeContext): number {
+	const oldEntityKey = context.entityKeys.get(`old:${oldKey}`);
+	const newEntityKey = context.entityKeys.get(`new:${newKey}`);
+	if (newEntityKey !== undefined) {
+		if (oldEntityKey === undefined) context.entityKeys.set(`old:${oldKey}`, newEntityKey);
+		return newEntityKey;
+	}
+	if (oldEntityKey !== undefined) {
+		context.entityKeys.set(`new:${newKey}`, oldEntityKey);
+		return oldEntityKey;
+	}
+	const entityKey = getEntityKey('new', newKey, context);
+	context.entityKeys.set(`old:${oldKey}`, entityKey);
+	return entityKey;
+}
+
+/**
+ * Function returns the key of a merged block, a new key when it's already taken by another merged block.
+ */
+function getMergedKey(key: string, context: MergeContext): string {
+	const mergedKey = context.writtenKeys.has(key) ? generateBlockKey(context.seenKeys) : key;
+	context.writtenKeys.add(mergedKey);
+	return mergedKey;
+}
+
+/**
+ * Function adds a block of a revision to the merged content as it is, marked as a whole when it's inserted or deleted.
+ */
+function addWholeBlock(block: Block, side: Side, context: MergeContext, style?: DiffStyle): void {
+	const key = getMergedKey(block.key, context);
+	context.blocks.push({
+		...block,
+		key,
+		entityRanges: block.entityRanges.map(range => ({...range, key: getEntityKey(side, String(range.key), context)})),
+	});
+	if (style) context.wholeBlocks.set(key, style);
+}
+
+/**
+ * Function returns true if a deletion followed by an insertion can be written as a substitution,
+ * which holds when the style nodes and the entity sections of the tree keep both parts side by side.
+ * Each part must have the same styles and entity throughout, styles running into a part from outside
+ * of the change must apply to the other part too, and an entity must be around both parts or inside one.
+ */
+function canSubstitute(tokens: MergedToken[], start: number, middle: number, end: number): boolean {
+	const isUniform = (from: number, to: number): boolean => tokens.slice(from, to).every(token => (
+		token.entityKey === tokens[from].entityKey
+		&& token.styles.length === tokens[from].styles.length
+		&& token.styles.every((style, index) => style === tokens[from].styles[index])
+	));
+	if (!isUniform(start, middle) || !isUniform(middle, end)) return false;
+	const oldStyles = tokens[start].styles;
+	const newStyles = tokens[middle].styles;
+	const before = tokens[start - 1]?.styles ?? [];
+	const after = tokens[end]?.styles ?? [];
+	if (
+		oldStyles.some(style => before.includes(style) && !newStyles.includes(style))
+		|| newStyles.some(style => after.includes(style) && !oldStyles.includes(style))
+	) {
+		return false;
+	}
+	const oldEntity = tokens[start].entityKey;
+	const newEntity = tokens[middle].entityKey;
+	return oldEntity === newEntity || (
+		(oldEntity === undefined || tokens[start - 1]?.entityKey !== oldEntity)
+		&& (newEntity === undefined || tokens[end]?.entityKey !== newEntity)
+	);
+}
+
+/**
+ * Function marks the deletions followed by an insertion that can be written as substitutions.
+ */
+function markSubstitutions(tokens: MergedToken[]): void {
+	let start = 0;
+	while (start < tokens.length) {
+		if (tokens[start].diff !== 'DIFF-DELETE') {
+			start += 1;
+			continue;
+		}
+		let middle = start;
+		while (middle < tokens.length && tokens[middle].diff === 'DIFF-DELETE') middle += 1;
+		let end = middle;
+		while (end < tokens.length && tokens[end].diff === 'DIFF-INSERT') end += 1;
+		if (end > middle && canSubstitute(tokens, start, middle, end)) {
+			tokens.slice(start, middle).forEach(token => (token.diff = 'DIFF-OLD'));
+			tokens.slice(middle, end).forEach(token => (token.diff = 'DIFF-NEW'));
+		}
+		start = end;
+	}
+}
+
+/**
+ * Function returns the merged block of a modified block: the text of both revisions, in the order of the changes,
+ * with the inline styles and entities of each character and the inline style of its change.
+ */
+function getMergedBlock(block: Block, tokens: MergedToken[], key: string): Block {
+	let text = '';
+	const inlineStyleRanges: InlineStyleRange[] = [];
+	const entityRanges: Block['entityRanges'] = [];
+	const open = new Map<string, number>();
+	const close = (style: string, offset: number): void => {
+		const start = open.get(style) as number;
+		inlineStyleRanges.push({offset: start, length: offset - start, style});
+		open.delete(style);
+	};
+	tokens.forEach((token, index) => {
+		const styles = token.diff ? [...token.styles, token.diff] : token.styles;
+		[...open.keys()].filter(style => !styles.includes(style)).forEach(style => close(style, text.length));
+		styles.filter(style => !open.has(style)).forEach(style => open.set(style, text.length));
+		if (token.entityKey !== undefined) {
+			const last = entityRanges[entityRanges.length - 1];
+			if (last && last.key === token.entityKey && tokens[index - 1]?.entityKey === token.entityKey) {
+				last.length += token.text.length;
+			} else {
+				entityRanges.push({offset: text.length, length: token.text.length, key: token.entityKey});
+			}
+		}
+		text += token.text;
+	});
+	[...open.keys()].forEach(style => close(style, text.length));
+	return {...block, key, text, inlineStyleRanges, entityRanges};
+}
+
+/**
+ * Function adds a block of both revisions to the merged content, with the changes between them.
+ * Code and atomic blocks are written as they are, and changes of the type, depth or data of a block have no inline
+ * markup, so they're added as the old block deleted and the new one inserted.
+ */
+function addModifiedBlock(oldBlock: Block, newBlock: Block, oldTokens: Token[], newTokens: Token[], context: MergeContext): void {
+	if (
+		isCodeBlock(oldBlock) || isCodeBlock(newBlock) || isAtomicBlock(oldBlock) || isAtomicBlock(newBlock)
+		|| !sameBlockFormat(oldBlock, newBlock)
+	) {
+		addWholeBlock(oldBlock, 'old', context, 'DIFF-DELETE');
+		addWholeBlock(newBlock, 'new', context, 'DIFF-INSERT');
+		return;
+	}
+	const pairs = getCommonPairs(oldTokens.length, newTokens.length, (i, j) => sameToken(oldTokens[i], newTokens[j]));
+	const tokens = mergeShortEqualities(getDiffOps(oldTokens.length, newTokens.length, pairs)).map((op): MergedToken => {
+		const token = op.type === 'delete' ? oldTokens[op.index1] : newTokens[op.index2];
+		let entityKey: number | undefined;
+		if (token.entityKey !== undefined) {
+			entityKey = op.type === 'equal'
+				? getSharedEntityKey(oldTokens[op.index1].entityKey as string, token.entityKey, context)
+				: getEntityKey(op.type === 'delete' ? 'old' : 'new', token.entityKey, context);
+		}
+		const diff = op.type === 'equal' ? undefined : op.type === 'delete' ? 'DIFF-DELETE' : 'DIFF-INSERT';
+		return {text: token.text, styles: token.styles, entityKey, diff};
+	});
+	markSubstitutions(tokens);
+	context.blocks.push(getMergedBlock(newBlock, tokens, getMergedKey(newBlock.key, context)));
+}
+
+/**
+ * Function returning the markers of a change, written in blocks of their own around a whole block.
+ */
+type BlockMarkers = (style: DiffStyle) => [BlockContent, BlockContent];
+
+/**
+ * Function returns the block markers of a markup: CriticMarkup on the lines around the block, or html tags.
+ * An opening tag is followed by a blank line, unless blocks are separated by one, so the block isn't read as html.
+ */
+function getBlockMarkers(markup: DiffMarkup, config: Config): BlockMarkers {
+	const blankLine = markup === 'html' && !config?.emptyLineBeforeBlock && !config?.format ? '\n' : '';
+	return style => {
+		const [open, close] = DIFF_STYLE_TRANSFORMS[markup][style];
+		return [{type: 'html', value: open + blankLine}, {type: 'html', value: close}];
+	};
+}
+
+/**
+ * Function returns the code node of merged code blocks split into runs of blocks with the same change,
+ * with the inserted and deleted runs between block markers.
+ */
+function splitCode(node: Code, wholeBlocks: Map<string, DiffStyle>, texts: Map<string, string>, markers: BlockMarkers): BlockContent[] {
+	const positions = node.data?.positions ?? (node.position ? [node.position] : []);
+	const styles = positions.map(position => wholeBlocks.get(position.start.blockKey));
+	if (styles.every(style => style === undefined)) return [node];
+	const runs: {style?: DiffStyle; positions: Position[]}[] = [];
+	positions.forEach((position, index) => {
+		const last = runs[runs.length - 1];
+		if (last && last.style === styles[index]) {
+			last.positions.push(position);
+		} else {
+			runs.push({style: styles[index], positions: [position]});
+		}
+	});
+	return runs.flatMap(({style, positions: runPositions}) => {
+		const code: Code = {
+			...node,
+			value: runPositions.map(position => texts.get(position.start.blockKey) ?? '').join('\n'),
+			position: {start: runPositions[0].start, end: runPositions[runPositions.length - 1].end},
+			data: {...node.data, positions: runPositions.length > 1 ? runPositions : undefined},
+		};
+		if (!style) return [code];
+		const [open, close] = markers(style);
+		return [open, code, close];
+	});
+}
+
+/**
+ * Function marks the whole blocks inserted or deleted in block nodes. The content of paragraphs and headings is put
+ * in the inline style of the change, code and other blocks are put between block markers.
+ */
+function markWholeBlocks(
+	nodes: BlockContent[],
+	wholeBlocks: Map<string, DiffStyle>,
+	texts: Map<string, string>,
+	markers: BlockMarkers,
+): BlockContent[] {
+	return nodes.flatMap((node): BlockContent[] => {
+		const style = node.position ? wholeBlocks.get(node.position.start.blockKey) : undefined;
+		switch (node.type) {
+			case 'paragraph':
+			case 'heading':
+				if (style && node.children.length > 0) {
+					node.children = [{type: 'inlineStyle', style, children: node.children, position: node.position}];
+				}
+				return [node];
+			case 'blockquote':
+				node.children = markWholeBlocks(node.children, wholeBlocks, texts, markers);
+				return [node];
+			case 'list':
+				node.children.forEach(item => {
+					item.children = markWholeBlocks(item.children, wholeBlocks, texts, markers);
+				});
+				return [node];
+			case 'code':
+				return splitCode(node, wholeBlocks, texts, markers);
+			case 'footnoteDefinition':
+				return [node];
+			default: {
+				if (!style) return [node];
+				const [open, close] = markers(style);
+				return [open, node, close];
+			}
+		}
+	});
+}
+
+/**
+ * Function returns the plugin marking the changes of a diff: it renders the inline styles of the changes,
+ * keeping the whitespace inserted or deleted in them, and marks the whole blocks in the tree.
+ */
+function getDiffPlugin(blocks: Block[], wholeBlocks: Map<string, DiffStyle>, markup: DiffMarkup): Plugin {
+	const texts = new Map(blocks.map(block => [block.key, block.text]));
+	return {
+		name: 'diff',
+		styles: Object.keys(DIFF_STYLE_TRANSFORMS[markup]),
+		keepWhitespace: true,
+		transformTree(tree: Root, {config}) {
+			tree.children = markWholeBlocks(tree.children, wholeBlocks, texts, getBlockMarkers(markup, config));
+		},
+	};
+}
+
+/**
+ * Function returns the blocks of a revision, repaired and with offsets in UTF-16 code units.
+ * Issues are reported as buildMdast does, with paths starting with the revision they're in.
+ */
+function getRevision(editorContent: EditorContent, side: Side, config: Config): EditorContent {
+	const offsetUnit = config?.offsetUnit ?? 'code-point';
+	const {content, issues} = repairEditorContent(editorContent, offsetUnit);
+	if (issues.length > 0) {
+		const revisionIssues = issues.map(issue => ({...issue, path: issue.path ? `${side}.${issue.path}` : side}));
+		if (config?.strict) {
+			throw new EditorContentError(revisionIssues);
+		}
+		config?.onValidationIssues?.(revisionIssues);
+	}
+	return {
+		...content,
+		blocks: offsetUnit === 'utf-16' ? content.blocks : content.blocks.map(block => convertBlockOffsets(block, 'utf-16')),
+	};
+}
+
+/**
+ * Function returns the content of the diff of two revisions, with offsets in UTF-16 code units.
+ * Blocks are matched in order by key, and blocks whose key isn't in the other revision by the similarity of their text.
+ * Blocks in between are deleted or inserted, deletions first.
+ */
+export function getDiffContent(oldContent: EditorContent, newContent: EditorContent, options: DiffOptions): DiffContent {
+	const config = options.config ?? {};
+	const markup = options.markup ?? 'criticmarkup';
+	const threshold = options.similarityThreshold ?? 0.5;
+	const oldRevision = getRevision(oldContent, 'old', config);
+	const newRevision = getRevision(newContent, 'new', config);
+	const oldBlocks = oldRevision.blocks;
+	const newBlocks = newRevision.blocks;
+	const oldKeys = new Set(oldBlocks.map(block => block.key));
+	const newKeys = new Set(newBlocks.map(block => block.key));
+	const oldBigrams = oldBlocks.map(block => getBigrams(block.text));
+	const newBigrams = newBlocks.map(block => getBigrams(block.text));
+	const pairs = getCommonPairs(oldBlocks.length, newBlocks.length, (i, j) => {
+		const oldBlock = oldBlocks[i];
+		const newBlock = newBlocks[j];
+		if (oldBlock.key === newBlock.key) return true;
+		if (newKeys.has(oldBlock.key) || oldKeys.has(newBlock.key)) return false;
+		return getSimilarity(oldBlock.text, newBlock.text, oldBigrams[i], newBigrams[j]) >= threshold;
+	});
+	const context: MergeContext = {
+		blocks: [],
+		entityMap: {},
+		entityKeys: new Map(),
+		entityMaps: {old: oldRevision.entityMap, new: newRevision.entityMap},
+		seenKeys: new Set([...oldKeys, ...newKeys]),
+		writtenKeys: new Set(),
+		wholeBlocks: new Map(),
+		changes: [],
+	};
+	getDiffOps(oldBlocks.length, newBlocks.length, pairs).forEach(op => {
+		if (op.type === 'delete') {
+			addWholeBlock(oldBlocks[op.index1], 'old', context, 'DIFF-DELETE');
+			context.changes.push({type: 'deleted', oldKey: oldBlocks[op.index1].key});
+			return;
+		}
+		if (op.type === 'insert') {
+			addWholeBlock(newBlocks[op.index2], 'new', context, 'DIFF-INSERT');
+			context.changes.push({type: 'inserted', newKey: newBlocks[op.index2].key});
+			return;
+		}
+		const oldBlock = oldBlocks[op.index1];
+		const newBlock = newBlocks[op.index2];
+		const oldTokens = getTokens(oldBlock, oldRevision.entityMap);
+		const newTokens = getTokens(newBlock, newRevision.entityMap);
+		const unchanged = sameBlock(oldBlock, newBlock, oldTokens, newTokens);
+		if (unchanged) {
+			addWholeBlock(newBlock, 'new', context);
+		} else {
+			addModifiedBlock(oldBlock, newBlock, oldTokens, newTokens, context);
+		}
+		context.changes.push({type: unchanged ? 'unchanged' : 'modified', oldKey: oldBlock.key, newKey: newBlock.key});
+	});
+	options.onBlockChanges?.(context.changes);
+	return {
+		content: {...newRevision, blocks: context.blocks, entityMap: context.entityMap},
+		plugin: getDiffPlugin(context.blocks, context.wholeBlocks, markup),
+		styleTransform: DIFF_STYLE_TRANSFORMS[markup],
+	};
+}
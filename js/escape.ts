@@ -0,0 +1,204 @@
+import type {Block, Config, EntityMap} from './index.ts';
+import type {Flavor} from './flavors.ts';
+
+export type MarkdownEscaping = 'contextual' | 'strict' | 'none';
+
+/**
+ * Characters escaped in text written without the context of its block.
+ */
+const INLINE_ESCAPED = '\\`*_[]~';
+
+/**
+ * Entity types whose text is written inside square brackets.
+ */
+const BRACKETED_ENTITY_TYPES = ['LINK', 'MENTION'];
+
+/**
+ * Function returns the markdown for a character, doing the replacements
+ * for newlines and html special characters.
+ */
+export function getCharacterMarkdown(ch: string): string {
+	switch (ch) {
+		case '\n':
+			// Two trailing spaces make a hard line break
+			return '  \n';
+		case '&':
+			return '&amp;';
+		case '<':
+			return '&lt;';
+		case '>':
+			return '&gt;';
+		default:
+			return ch;
+	}
+}
+
+/**
+ * Function returns text with html special characters replaced, so it can be written in html text or attributes.
+ */
+export function escapeHtml(text: string): string {
+	return text.replace(/[&<>"]/g, ch => ({'&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;'})[ch] as string);
+}
+
+/**
+ * Function returns the markdown for text without the context of its block,
+ * escaping every character that can start or end inline markdown.
+ */
+export function getTextMarkdown(text: string, flavor: Flavor, escaping: MarkdownEscaping): string {
+	const escaped = escaping === 'strict' ? flavor.strictEscaped : escaping === 'contextual' ? INLINE_ESCAPED : '';
+	const inRuns = escaping === 'contextual' ? getMarkupRunOffsets(text, flavor) : new Set<number>();
+	return text.split('')
+		.map((ch, i) => (escaped.includes(ch) || inRuns.has(i) ? `\\${ch}` : flavor.getCharacterMarkdown(ch)))
+		.join('');
+}
+
+/**
+ * Function returns the offsets of the characters of the text in a markup run of the flavor.
+ */
+function getMarkupRunOffsets(text: string, flavor: Flavor): Set<number> {
+	const offsets = new Set<number>();
+	(flavor.markupRuns ?? []).forEach(run => {
+		for (let i = text.indexOf(run); i >= 0; i = text.indexOf(run, i + 1)) {
+			for (let j = i; j < i + run.length; j += 1) offsets.add(j);
+		}
+	});
+	return offsets;
+}
+
+function isWhitespace(ch: string | undefined): boolean {
+	return ch === undefined || /\s/.test(ch);
+}
+
+function isAlphanumeric(ch: string | undefined): boolean {
+	return ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+}
+
+/**
+ * Function returns the offsets of the characters that start a line in the block.
+ */
+function getLineStarts(text: string): number[] {
+	const starts = [0];
+	for (let i = 0; i < text.length; i += 1) {
+		if (text[i] === '\n') starts.push(i + 1);
+	}
+	return starts;
+}
+
+/**
+ * Function returns the offset of the character in a line which would be read as
+ * a block marker (heading, list item, blockquote, thematic break, setext underline), or -1.
+ */
+function getLineMarkerOffset(line: string): number {
+	if (/^#{1,6}(?:\s|$)/.test(line)) return 0;
+	if (/^(?:[-*_][ \t]*){3,}$/.test(line)) return 0;
+	if (/^=+[ \t]*$/.test(line)) return 0;
+	if (/^[-+*](?:\s|$)/.test(line)) return 0;
+	if (line.startsWith('>')) return 0;
+	const ordered = /^\d{1,9}([.)])(?:\s|$)/.exec(line);
+	if (ordered) return ordered[0].indexOf(ordered[1]);
+	return -1;
+}
+
+/**
+ * Function returns the markdown for each character of the text of a block,
+ * escaping characters that would otherwise be read as markdown syntax.
+ * In contextual mode only characters in a position where they could be syntax are escaped,
+ * strict mode escapes every markdown punctuation character and none only does the html replacements.
+ * Characters in code are left alone, they're written verbatim in code spans.
+ * The characters and strict escaping are those of the flavor.
+ */
+export function getEscapedText(block: Block, entityMap: EntityMap, config: Config, flavor: Flavor): string[] {
+	const {text} = block;
+	const escaping: MarkdownEscaping = config?.markdownEscaping ?? flavor.markdownEscaping;
+	const escaped = text.split('').map(flavor.getCharacterMarkdown);
+	if (escaping === 'none') return escaped;
+
+	const inCode = new Array<boolean>(text.length).fill(false);
+	const boundaries = new Set<number>();
+	(block.inlineStyleRanges ?? []).forEach(({offset, length, style}) => {
+		boundaries.add(offset);
+		boundaries.add(offset + length);
+		if (style === 'CODE' || style === 'CODE-BLOCK') {
+			inCode.fill(true, offset, offset + length);
+		}
+	});
+	const inBrackets = new Array<boolean>(text.length).fill(false);
+	const bracketStarts = new Set<number>();
+	(block.entityRanges ?? []).forEach(({offset, length, key}) => {
+		boundaries.add(offset);
+		boundaries.add(offset + length);
+		if (BRACKETED_ENTITY_TYPES.includes(entityMap?.[key]?.type)) {
+			inBrackets.fill(true, offset, offset + length);
+			bracketStarts.add(offset);
+		}
+	});
+
+	const escape = (i: number): void => {
+		escaped[i] = `\\${escaped[i]}`;
+	};
+
+	if (escaping === 'strict') {
+		for (let i = 0; i < text.length; i += 1) {
+			if (!inCode[i] && flavor.strictEscaped.includes(text[i])) escape(i);
+		}
+		return escaped;
+	}
+
+	// The fences of code spans count as backticks too
+	const backticks = text.split('').filter((ch, i) => ch === '`' && !inCode[i]).length + (inCode.includes(true) ? 2 : 0);
+	const firstOpenBracket = text.indexOf('[');
+	const lastCloseBracket = text.lastIndexOf(']');
+	for (let i = 0; i < text.length; i += 1) {
+		if (inCode[i]) continue;
+		const ch = text[i];
+		const previous = text[i - 1];
+		const next = text[i + 1];
+		const atBoundary = boundaries.has(i) || boundaries.has(i + 1);
+		switch (ch) {
+			case '\\':
+				// A backslash before a newline would be read as a hard line break, and trailing spaces are written as &nbsp;
+				if (atBoundary || next === '\n' || text.substring(i + 1).trim() === '' || !(isWhitespace(next) || isAlphanumeric(next))) {
+					escape(i);
+				}
+				break;
+			case '*':
+			case '~':
+				// Only a run with whitespace on both sides can't open or close emphasis
+				if (atBoundary || !(isWhitespace(previous) && isWhitespace(next))) escape(i);
+				break;
+			case '_':
+				// Underscores inside a word don't make emphasis
+				if (atBoundary || !((isWhitespace(previous) && isWhitespace(next)) || (isAlphanumeric(previous) && isAlphanumeric(next)))) {
+					escape(i);
+				}
+				break;
+			case '`':
+				if (atBoundary || backticks > 1) escape(i);
+				break;
+			case '[':
+				if (inBrackets[i] || lastCloseBracket > i) escape(i);
+				break;
+			case ']':
+				if (inBrackets[i] || (firstOpenBracket >= 0 && firstOpenBracket < i)) escape(i);
+				break;
+			case '!':
+				// An exclamation mark before the bracket of a link would make it an image
+				if (next === '[' || bracketStarts.has(i + 1)) escape(i);
+				break;
+		}
+	}
+
+	getMarkupRunOffsets(text, flavor).forEach(i => {
+		if (!inCode[i] && !escaped[i].startsWith('\\')) escape(i);
+	});
+
+	getLineStarts(text).forEach(start => {
+		const end = text.indexOf('\n', start);
+		const offset = getLineMarkerOffset(text.substring(start, end < 0 ? text.length : end));
+		// A marker already escaped or replaced by an entity, like > in html flavors, is left alone
+		if (offset >= 0 && !inCode[start + offset] && escaped[start + offset] === text[start + offset]) {
+			escape(start + offset);
+		}
+	});
+	return escaped;
+}
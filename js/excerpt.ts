@@ -0,0 +1,151 @@
+import type {Block, EditorContent, OffsetUnit} from './index.ts';
+import {convertBlockOffsets, generateBlockKey, getCodePointOffsets, isAtomicBlock, isCodeBlock, isEmptyString} from './common.ts';
+
+export type ExcerptBoundary = 'sentence' | 'word';
+
+/**
+ * Limits of an excerpt. Without limits the whole content is kept.
+ */
+export interface ExcerptOptions {
+	/** Most characters of text, counted in code points without the markup and the ellipsis */
+	maxCharacters?: number;
+	/** Most blocks, blocks of only whitespace aren't counted */
+	maxBlocks?: number;
+	/**
+	 * Where the last block is cut: after the last sentence that keeps at least half of the characters left,
+	 * or after the last word. sentence by default, words are the fallback of sentences
+	 */
+	boundary?: ExcerptBoundary;
+	/** Written after the text of a truncated excerpt, … by default, in a block of its own after a code or atomic block */
+	ellipsis?: string;
+	/** Keep atomic blocks like images and embeds, they're left out by default */
+	keepAtomicBlocks?: boolean;
+}
+
+/**
+ * Markdown of an excerpt, and whether text of the content was left out of it.
+ * Atomic blocks left out don't make an excerpt truncated.
+ */
+export interface MarkdownExcerpt {
+	markdown: string;
+	truncated: boolean;
+}
+
+const SENTENCE_END = /[.!?…]+["'’”)\]]*(?=\s|$)/g;
+
+const TRAILING_SENTENCE_END = /[.!?…]+["'’”)\]]*$/;
+
+/**
+ * Function returns the offset a text is cut at to keep at most limit characters, in UTF-16 code units.
+ * Cuts inside an entity are moved before it, unless that leaves no text. Whitespace before the cut is left out.
+ */
+function getCutOffset(block: Block, limit: number, boundary: ExcerptBoundary): number {
+	const {text} = block;
+	const trim = (offset: number): number => {
+		let trimmed = offset;
+		while (trimmed > 0 && /\s/.test(text[trimmed - 1])) trimmed -= 1;
+		return trimmed;
+	};
+	let cut = -1;
+	if (boundary === 'sentence') {
+		for (const match of text.matchAll(SENTENCE_END)) {
+			const end = (match.index as number) + match[0].length;
+			if (end > limit) break;
+			if (end >= limit / 2) cut = end;
+		}
+	}
+	for (let i = limit; cut < 0 && i > 0; i -= 1) {
+		if (i === text.length || /\s/.test(text[i])) cut = i;
+	}
+	// A single word longer than the limit is cut inside
+	cut = trim(cut < 0 ? limit : cut);
+	let outside = cut;
+	block.entityRanges.forEach(({offset, length}) => {
+		if (offset < outside && outside < offset + length) outside = offset;
+	});
+	return trim(outside) > 0 ? trim(outside) : cut;
+}
+
+/**
+ * Function returns a block cut at an offset in UTF-16 code units, with its ranges clipped to the text kept.
+ */
+function cutBlock(block: Block, cut: number): Block {
+	const clip = <R extends {offset: number; length: number}>(ranges: R[]): R[] => ranges
+		.filter(range => range.offset < cut && range.length > 0)
+		.map(range => ({...range, length: Math.min(range.offset + range.length, cut) - range.offset}));
+	return {
+		...block,
+		text: block.text.substring(0, cut),
+		inlineStyleRanges: clip(block.inlineStyleRanges),
+		entityRanges: clip(block.entityRanges),
+	};
+}
+
+/**
+ * Function returns the text of a block with the ellipsis after it, separated by a space after the end of a sentence.
+ */
+function addEllipsis(text: string, ellipsis: string): string {
+	return `${text}${TRAILING_SENTENCE_END.test(text) ? ' ' : ''}${ellipsis}`;
+}
+
+/**
+ * Function returns the blocks of the excerpt of valid content, in its offset unit, and whether text was left out.
+ * Blocks are kept whole until a limit is reached, and the block reaching the character limit is cut.
+ */
+export function getExcerptContent(
+	editorContent: EditorContent,
+	offsetUnit: OffsetUnit,
+	options: ExcerptOptions,
+): {content: EditorContent; truncated: boolean} {
+	const maxCharacters = options.maxCharacters ?? Infinity;
+	const maxBlocks = options.maxBlocks ?? Infinity;
+	const {blocks} = editorContent;
+	const excerpt: Block[] = [];
+	let characters = 0;
+	let count = 0;
+	let cut = false;
+	let index = 0;
+	for (; index < blocks.length && count < maxBlocks && characters < maxCharacters; index += 1) {
+		const block = blocks[index];
+		if (isAtomicBlock(block)) {
+			if (options.keepAtomicBlocks) {
+				excerpt.push(block);
+				count += 1;
+			}
+			continue;
+		}
+		const offsets = getCodePointOffsets(block.text);
+		const length = offsets.length - 1;
+		if (!isEmptyString(block.text)) count += 1;
+		if (characters + length <= maxCharacters) {
+			excerpt.push(block);
+			characters += length;
+			continue;
+		}
+		const converted = offsetUnit === 'utf-16' ? block : convertBlockOffsets(block, 'utf-16');
+		const limit = offsets[Math.floor(maxCharacters - characters)];
+		const cutConverted = cutBlock(converted, getCutOffset(converted, limit, options.boundary ?? 'sentence'));
+		excerpt.push(offsetUnit === 'utf-16' ? cutConverted : convertBlockOffsets(cutConverted, 'code-point'));
+		cut = true;
+		index += 1;
+		break;
+	}
+	const truncated = cut
+		|| blocks.slice(index).some(block => !isAtomicBlock(block) && !isEmptyString(block.text));
+	if (truncated) {
+		// Blocks of only whitespace at the end are left out, so the ellipsis ends the excerpt
+		while (excerpt.length > 0 && !isAtomicBlock(excerpt[excerpt.length - 1]) && isEmptyString(excerpt[excerpt.length - 1].text)) {
+			excerpt.pop();
+		}
+		const ellipsis = options.ellipsis ?? '…';
+		const last = excerpt[excerpt.length - 1];
+		// The ellipsis would be read as code in a code block, so it gets a block of its own after one
+		if (ellipsis && last && !isAtomicBlock(last) && !isCodeBlock(last)) {
+			excerpt[excerpt.length - 1] = {...last, text: addEllipsis(last.text, ellipsis)};
+		} else if (ellipsis) {
+			const key = generateBlockKey(new Set(blocks.map(block => block.key)));
+			excerpt.push({key, text: ellipsis, type: 'unstyled', depth: 0, inlineStyleRanges: [], entityRanges: []});
+		}
+	}
+	return {content: {...editorContent, blocks: excerpt}, truncated};
+}
@@ -0,0 +1,53 @@
+import type {AssetResolver} from './assets.ts';
+
+export interface DataUriFileResolverOptions {
+	/** Directory the files are written to, it's made when missing */
+	directory: string;
+	/** Url the files are written with, followed by their name. The directory is used by default */
+	baseUrl?: string;
+}
+
+const DATA_URI = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s;
+
+const EXTENSIONS: Record<string, string> = {
+	'image/jpeg': 'jpg',
+	'image/svg+xml': 'svg',
+	'text/plain': 'txt',
+};
+
+/**
+ * Function returns the extension of the files of a mime type.
+ */
+function getExtension(mimeType: string): string {
+	if (Object.hasOwn(EXTENSIONS, mimeType)) return EXTENSIONS[mimeType];
+	const subtype = /^[\w.+-]+\/([\w-]+)/.exec(mimeType)?.[1];
+	return subtype ? subtype.toLowerCase() : 'bin';
+}
+
+/**
+ * Function returns the bytes of the data of a data uri, in base64 or percent-encoded.
+ */
+function getDataBytes(data: string, base64: boolean): Uint8Array<ArrayBuffer> {
+	if (base64) return Uint8Array.from(atob(data.replace(/\s/g, '')), ch => ch.charCodeAt(0));
+	return new TextEncoder().encode(decodeURIComponent(data));
+}
+
+/**
+ * Function returns an asset resolver extracting data uris to files, named by the hash of their content.
+ * Other assets are kept as they are.
+ */
+export function getDataUriFileResolver(options: DataUriFileResolverOptions): AssetResolver {
+	const baseUrl = (options.baseUrl ?? options.directory.replace(/\\/g, '/')).replace(/\/$/, '');
+	return async ({src}) => {
+		const match = DATA_URI.exec(src);
+		if (!match) return undefined;
+		const [, mimeType, parameters, data] = match;
+		const bytes = getDataBytes(data, parameters.split(';').includes('base64'));
+		const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+		const name = [...hash.slice(0, 8)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+		const file = `${name}.${getExtension(mimeType.toLowerCase() || 'text/plain')}`;
+		await Deno.mkdir(options.directory, {recursive: true});
+		await Deno.writeFile(`${options.directory.replace(/[\\/]$/, '')}/${file}`, bytes);
+		return `${baseUrl}/${file}`;
+	};
+}
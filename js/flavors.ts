@@ -0,0 +1,212 @@
+import type {BlockTypesMapping, Config, CustomStyleTransform} from './index.ts';
+import {defaultBlockTypesMapping, defaultHtmlStyleTransform, defaultStyleTransform} from './defaults.ts';
+import {getCharacterMarkdown, type MarkdownEscaping} from './escape.ts';
+
+/**
+ * The markup of an output flavor. The block prefixes and style delimiters are applied
+ * over the defaults, and config options override the ones of the flavor.
+ * Hooks left out are written as CommonMark.
+ */
+export interface Flavor {
+	/** Delimiters of the inline styles, an empty string drops a style the flavor doesn't support */
+	styleTransform: CustomStyleTransform;
+	/** Html form of the inline styles, used when their delimiters can't flank the content */
+	htmlStyleTransform: CustomStyleTransform;
+	blockTypesMapping: Partial<BlockTypesMapping>;
+	markdownEscaping: MarkdownEscaping;
+	/** Characters escaped everywhere by strict escaping */
+	strictEscaped: string;
+	/** Runs of characters the flavor reads as markup, escaped wherever they're found in contextual escaping */
+	markupRuns?: string[];
+	/** Function returns the markdown for a character of text, before it's escaped */
+	getCharacterMarkdown: (ch: string) => string;
+	/** Whether html can be written, like span tags for string styles, iframes and &nbsp; */
+	html: boolean;
+	/** How newlines in the text of a block are written */
+	hardBreak: HardBreakStyle;
+	/** Inline style written around the text of headings, for flavors without headings */
+	headingStyle?: string;
+	getLinkMarkdown?: (url: string, text: string) => string;
+	getImageMarkdown?: (url: string, alt: string) => string;
+	getCodeSpanMarkdown?: (code: string) => string;
+	getCodeBlockMarkdown?: (code: string, language: string) => string;
+}
+
+export type FlavorName = 'commonmark' | 'gfm' | 'slack' | 'discord' | 'telegram';
+
+/**
+ * Markup of a hard line break: two trailing spaces, a trailing backslash, a <br> tag,
+ * or a plain newline in flavors where every newline is a line break.
+ */
+export type HardBreakStyle = 'spaces' | 'backslash' | 'html' | 'newline';
+
+const NO_HEADINGS: Partial<BlockTypesMapping> = {
+	'header-one': '',
+	'header-two': '',
+	'header-three': '',
+	'header-four': '',
+	'header-five': '',
+	'header-six': '',
+};
+
+/**
+ * Function returns the markdown for a character in flavors without html, where newlines are kept.
+ */
+function getPlainCharacterMarkdown(ch: string): string {
+	return ch;
+}
+
+/**
+ * Function returns the markdown for a character in Slack, which only needs &, < and > replaced.
+ */
+function getSlackCharacterMarkdown(ch: string): string {
+	return ch === '\n' ? ch : getCharacterMarkdown(ch);
+}
+
+/**
+ * Function returns the text of a Slack link, where a | would end the url and a > the link.
+ * Slack has no escape for |, it's replaced with the look-alike ∣.
+ */
+function getSlackLinkText(text: string): string {
+	return text.replace(/\|/g, '∣').replace(/>/g, '&gt;');
+}
+
+const TELEGRAM_ESCAPED = '_*[]()~`>#+-=|{}.!\\';
+
+function escapeTelegram(text: string, characters: string): string {
+	return text.split('').map(ch => (characters.includes(ch) ? `\\${ch}` : ch)).join('');
+}
+
+/**
+ * Markup used without a flavor option, CommonMark with the __ underline and ~~ strikethrough of the earlier versions.
+ */
+const defaultFlavor: Flavor = {
+	styleTransform: defaultStyleTransform,
+	htmlStyleTransform: defaultHtmlStyleTransform,
+	blockTypesMapping: defaultBlockTypesMapping,
+	markdownEscaping: 'contextual',
+	strictEscaped: '\\`*_{}[]()#+-.!|~=',
+	getCharacterMarkdown,
+	html: true,
+	hardBreak: 'spaces',
+};
+
+const commonmark: Flavor = {
+	...defaultFlavor,
+	// __ is strong emphasis and ~~ isn't a delimiter in CommonMark, so both styles need html
+	styleTransform: {...defaultStyleTransform, UNDERLINE: ['<u>', '</u>'], STRIKETHROUGH: ['<del>', '</del>']},
+};
+
+/**
+ * Output flavors built in the library.
+ */
+export const flavors: Record<FlavorName, Flavor> = {
+	commonmark,
+	gfm: {
+		...commonmark,
+		// __ is strong emphasis in GFM, underline needs html
+		styleTransform: {...defaultStyleTransform, UNDERLINE: ['<ins>', '</ins>']},
+	},
+	slack: {
+		styleTransform: {
+			BOLD: '*',
+			ITALIC: '_',
+			UNDERLINE: '',
+			STRIKETHROUGH: '~',
+			CODE: '`',
+			BLOCKQUOTE: ['> ', ''],
+			SUPERSCRIPT: '',
+			SUBSCRIPT: '',
+		},
+		htmlStyleTransform: {},
+		blockTypesMapping: {
+			...NO_HEADINGS,
+			'unordered-list-item': '• ',
+			code: '',
+		},
+		markdownEscaping: 'none',
+		strictEscaped: '',
+		getCharacterMarkdown: getSlackCharacterMarkdown,
+		html: false,
+		hardBreak: 'newline',
+		headingStyle: 'BOLD',
+		getLinkMarkdown: (url, text) => (text ? `<${url}|${getSlackLinkText(text)}>` : `<${url}>`),
+		getImageMarkdown: (url, alt) => (alt ? `<${url}|${getSlackLinkText(alt)}>` : `<${url}>`),
+		getCodeSpanMarkdown: code => `\`${code}\``,
+		getCodeBlockMarkdown: code => `\`\`\`\n${code}\n\`\`\``,
+	},
+	discord: {
+		...commonmark,
+		styleTransform: {...defaultStyleTransform, SUPERSCRIPT: '', SUBSCRIPT: ''},
+		htmlStyleTransform: {},
+		blockTypesMapping: {
+			// Discord only has three heading levels
+			'header-four': '### ',
+			'header-five': '### ',
+			'header-six': '### ',
+		},
+		// Quotes start with a > that isn't replaced by an entity, and || is a spoiler
+		strictEscaped: `${commonmark.strictEscaped}>`,
+		markupRuns: ['||'],
+		getCharacterMarkdown: getPlainCharacterMarkdown,
+		html: false,
+		hardBreak: 'newline',
+		// Discord doesn't show images inline, a bare url gets an embed
+		getImageMarkdown: url => url,
+	},
+	telegram: {
+		styleTransform: {
+			BOLD: '*',
+			ITALIC: '_',
+			UNDERLINE: '__',
+			STRIKETHROUGH: '~',
+			CODE: '`',
+			BLOCKQUOTE: ['>', ''],
+			SUPERSCRIPT: '',
+			SUBSCRIPT: '',
+		},
+		htmlStyleTransform: {},
+		blockTypesMapping: {
+			...NO_HEADINGS,
+			'unordered-list-item': '• ',
+			'ordered-list-item': '1\\. ',
+			blockquote: '>',
+			code: '',
+		},
+		markdownEscaping: 'strict',
+		strictEscaped: TELEGRAM_ESCAPED,
+		getCharacterMarkdown: getPlainCharacterMarkdown,
+		html: false,
+		hardBreak: 'newline',
+		headingStyle: 'BOLD',
+		// Only ) and \ are escaped in the url of a MarkdownV2 link
+		getLinkMarkdown: (url, text) => `[${text}](${escapeTelegram(url, ')\\')})`,
+		getImageMarkdown: (url, alt) => `[${escapeTelegram(alt || url, TELEGRAM_ESCAPED)}](${escapeTelegram(url, ')\\')})`,
+		getCodeSpanMarkdown: code => `\`${escapeTelegram(code, '`\\')}\``,
+		getCodeBlockMarkdown: (code, language) => `\`\`\`${language}\n${escapeTelegram(code, '`\\')}\n\`\`\``,
+	},
+};
+
+/**
+ * Function returns the flavor of a config, by name or as given, and the default flavor without one.
+ */
+export function getFlavor(config: Config): Flavor {
+	const flavor = config?.flavor;
+	if (flavor === undefined) return defaultFlavor;
+	return typeof flavor === 'string' ? flavors[flavor] ?? defaultFlavor : flavor;
+}
+
+/**
+ * Function returns a flavor derived from another one.
+ * The style, html style and block type mappings are merged with the ones of the base flavor.
+ */
+export function extendFlavor(base: Flavor | FlavorName, overrides: Partial<Flavor>): Flavor {
+	const flavor = typeof base === 'string' ? flavors[base] : base;
+	return {
+		...flavor,
+		...overrides,
+		styleTransform: {...flavor.styleTransform, ...overrides.styleTransform},
+		htmlStyleTransform: {...flavor.htmlStyleTransform, ...overrides.htmlStyleTransform},
+		blockTypesMapping: {...flavor.blockTypesMapping, ...overrides.blockTypesMapping},
+	};
+}
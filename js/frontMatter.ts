@@ -0,0 +1,177 @@
+import type {Block, EditorContent} from './index.ts';
+import type {Plugin} from './plugins.ts';
+
+export type FrontMatterFormat = 'yaml' | 'toml';
+
+/**
+ * Metadata written at the top of the markdown, from the extra fields of the content.
+ */
+export interface FrontMatterOptions {
+	/** yaml by default */
+	format?: FrontMatterFormat;
+	/** Fields of the content written, in order */
+	fields?: string[];
+	/** Function returns metadata written after the fields, overriding fields of the same name */
+	metadata?: (editorContent: EditorContent) => Record<string, unknown>;
+	/** Write the text of the first header-one block as the title, leaving the block out of the body */
+	titleFromHeading?: boolean;
+}
+
+const YAML_PLAIN = /^[\p{L}_][\p{L}\p{N} _./-]*$/u;
+
+/**
+ * Words yaml reads as booleans or null when they're not quoted.
+ */
+const YAML_RESERVED = /^(?:true|false|yes|no|on|off|y|n|null)$/i;
+
+type Metadata = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Metadata {
+	return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Function returns a string in double quotes, valid in yaml and in toml.
+ * Characters either can't hold in a quoted string, like DEL or line separators, are written as escapes.
+ */
+function getQuotedString(value: string): string {
+	return JSON.stringify(value).replace(
+		/[\u007f-\u009f\u2028\u2029\ufeff]/g,
+		ch => `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`,
+	);
+}
+
+/**
+ * Function returns a string as a yaml key or scalar, only left unquoted when yaml can't read it as anything else.
+ */
+function getYamlString(text: string): string {
+	return YAML_PLAIN.test(text) && !/\s$/.test(text) && !YAML_RESERVED.test(text) ? text : getQuotedString(text);
+}
+
+/**
+ * Function returns the yaml of a scalar, strings are only left unquoted when yaml can't read them as anything else.
+ */
+function getYamlScalar(value: unknown): string {
+	if (value === null) return 'null';
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? 'null' : value.toISOString();
+	switch (typeof value) {
+		case 'number':
+			if (Number.isNaN(value)) return '.nan';
+			return Number.isFinite(value) ? String(value) : `${value < 0 ? '-' : ''}.inf`;
+		case 'boolean':
+		case 'bigint':
+			return String(value);
+		default:
+			return getYamlString(String(value));
+	}
+}
+
+/**
+ * Function returns the yaml written after the key or dash of a value, nested values on the lines below it.
+ */
+function getYamlValue(value: unknown, indent: string): string {
+	if (Array.isArray(value)) {
+		if (value.length === 0) return ' []\n';
+		return `\n${value.map(item => `${indent}  -${getYamlValue(item ?? null, `${indent}    `)}`).join('')}`;
+	}
+	if (isRecord(value)) {
+		const entries = getYamlEntries(value, `${indent}  `);
+		return entries ? `\n${entries}` : ' {}\n';
+	}
+	return ` ${getYamlScalar(value)}\n`;
+}
+
+/**
+ * Function returns the yaml of the entries of a mapping, undefined values are left out.
+ */
+function getYamlEntries(metadata: Metadata, indent: string): string {
+	return Object.entries(metadata)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => `${indent}${getYamlString(key)}:${getYamlValue(value, indent)}`)
+		.join('');
+}
+
+function getTomlKey(key: string): string {
+	return /^[A-Za-z0-9_-]+$/.test(key) ? key : getQuotedString(key);
+}
+
+/**
+ * Function returns the toml of a value written inline, or undefined for null and undefined, which toml can't hold.
+ */
+function getTomlValue(value: unknown): string | undefined {
+	if (value === null || value === undefined) return undefined;
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value.toISOString();
+	if (Array.isArray(value)) {
+		return `[${value.map(getTomlValue).filter(item => item !== undefined).join(', ')}]`;
+	}
+	if (isRecord(value)) {
+		const entries = Object.entries(value)
+			.map(([key, item]) => [key, getTomlValue(item)])
+			.filter(([, item]) => item !== undefined)
+			.map(([key, item]) => `${getTomlKey(key as string)} = ${item}`);
+		return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+	}
+	switch (typeof value) {
+		case 'number':
+			if (Number.isNaN(value)) return 'nan';
+			return Number.isFinite(value) ? String(value) : `${value < 0 ? '-' : ''}inf`;
+		case 'boolean':
+		case 'bigint':
+			return String(value);
+		default:
+			return getQuotedString(String(value));
+	}
+}
+
+/**
+ * Function returns the toml of a table, its values followed by its subtables.
+ */
+function getTomlTable(metadata: Metadata, path: string[]): string {
+	const lines: string[] = [];
+	const tables: string[] = [];
+	Object.entries(metadata).forEach(([key, value]) => {
+		if (isRecord(value)) {
+			tables.push(getTomlTable(value, [...path, key]));
+			return;
+		}
+		const toml = getTomlValue(value);
+		if (toml !== undefined) lines.push(`${getTomlKey(key)} = ${toml}\n`);
+	});
+	const header = path.length > 0 ? `\n[${path.map(getTomlKey).join('.')}]\n` : '';
+	return header + lines.join('') + tables.join('');
+}
+
+/**
+ * Function returns the first header-one block, which the title is taken from.
+ */
+export function getTitleBlock(editorContent: EditorContent): Block | undefined {
+	return (editorContent?.blocks ?? []).find(block => block?.type === 'header-one');
+}
+
+/**
+ * Function returns a plugin leaving the block of the title out of the body.
+ */
+export function getTitlePlugin(titleBlock: Block): Plugin {
+	return {
+		name: 'front-matter-title',
+		block: block => (block.key === titleBlock.key ? null : undefined),
+	};
+}
+
+/**
+ * Function returns the front matter of the content with its delimiters and a blank line,
+ * or an empty string when there's no metadata to write.
+ */
+export function getFrontMatter(editorContent: EditorContent, options: FrontMatterOptions): string {
+	const metadata: Metadata = {};
+	const title = options.titleFromHeading ? getTitleBlock(editorContent)?.text.trim() : undefined;
+	if (title) metadata.title = title;
+	(options.fields ?? []).forEach(field => {
+		if (field !== 'title' || !title) metadata[field] = editorContent?.[field];
+	});
+	Object.assign(metadata, options.metadata?.(editorContent));
+	if (Object.values(metadata).every(value => value === undefined)) return '';
+	return options.format === 'toml'
+		? `+++\n${getTomlTable(metadata, []).replace(/^\n/, '')}+++\n\n`
+		: `---\n${getYamlEntries(metadata, '')}---\n\n`;
+}
@@ -0,0 +1,50 @@
+import draftToMarkdown, {draftToHtml, type EditorContent, type EntityMap} from './index.ts';
+
+const STYLES = ['BOLD', 'ITALIC', 'UNDERLINE', 'STRIKETHROUGH', 'CODE', 'SUPERSCRIPT', 'color-red', 'bgcolor-yellow'];
+
+/**
+ * Function returns content of one block of length characters, with overlapping style ranges and links spread over it.
+ * Ranges come from a seeded generator, so every run converts the same content.
+ */
+function getLargeContent(length: number, styles: number, links: number): EditorContent {
+	let seed = 1;
+	const random = (max: number): number => {
+		seed = (seed * 1103515245 + 12345) % 2147483648;
+		return Math.floor((seed / 2147483648) * max);
+	};
+	const words = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'emoji 🚀', 'a*b', 'snake_case', '[x]', '#tag'];
+	let text = '';
+	while (text.length < length) text += `${words[random(words.length)]} `;
+	text = text.substring(0, length);
+	const entityMap: EntityMap = {};
+	const entityRanges = Array.from({length: links}, (_, key) => {
+		entityMap[key] = {type: 'LINK', mutability: 'MUTABLE', data: {url: `https://example.com/${key}`}};
+		// Links don't overlap each other, each one is in its own slice of the text
+		const slice = Math.floor(length / links);
+		return {offset: key * slice + random(slice / 2), length: 1 + random(slice / 2), key};
+	});
+	const inlineStyleRanges = Array.from({length: styles}, () => ({
+		offset: random(length),
+		length: 1 + random(200),
+		style: STYLES[random(STYLES.length)],
+	}));
+	return {
+		blocks: [{key: 'large', text, type: 'unstyled', depth: 0, inlineStyleRanges, entityRanges, data: {}}],
+		entityMap,
+	};
+}
+
+const medium = getLargeContent(2000, 200, 50);
+const large = getLargeContent(20000, 2000, 500);
+
+Deno.bench('draftToMarkdown, 2k characters, 200 styles, 50 links', {group: 'markdown', baseline: true}, () => {
+	draftToMarkdown(medium, {}, undefined, {offsetUnit: 'utf-16'});
+});
+
+Deno.bench('draftToMarkdown, 20k characters, 2000 styles, 500 links', {group: 'markdown'}, () => {
+	draftToMarkdown(large, {}, undefined, {offsetUnit: 'utf-16'});
+});
+
+Deno.bench('draftToHtml, 20k characters, 2000 styles, 500 links', () => {
+	draftToHtml(large, {offsetUnit: 'utf-16'});
+});
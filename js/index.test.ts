@@ -0,0 +1,270 @@
+import draftToMarkdown, {type EditorContent, getFrontMatter, markdownToDraft, type OffsetUnit} from './index.ts';
+
+/**
+ * Function throws if the actual value isn't the expected one.
+ */
+function assertEquals<T>(actual: T, expected: T): void {
+	if (actual !== expected) {
+		throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+	}
+}
+
+const LINK = {0: {type: 'LINK', mutability: 'MUTABLE', data: {url: 'https://example.com'}}};
+
+/**
+ * Function returns the markdown of one block with a style or a link over a range, in the given offset unit.
+ */
+function getRangeMarkdown(
+	text: string,
+	range: {offset: number; length: number},
+	style: string,
+	offsetUnit: OffsetUnit,
+): string {
+	const content: EditorContent = {
+		blocks: [{
+			key: 'block',
+			text,
+			type: 'unstyled',
+			depth: 0,
+			inlineStyleRanges: style === 'LINK' ? [] : [{...range, style}],
+			entityRanges: style === 'LINK' ? [{...range, key: 0}] : [],
+			data: {},
+		}],
+		entityMap: LINK,
+	};
+	return draftToMarkdown(content, {}, undefined, {offsetUnit});
+}
+
+/**
+ * Text, style and expected markdown of each case, with the range in code points and in UTF-16 code units.
+ */
+const CASES: {
+	name: string;
+	text: string;
+	style: string;
+	codePoint: {offset: number; length: number};
+	utf16: {offset: number; length: number};
+	markdown: string;
+}[] = [
+	{
+		name: 'emoji before a style',
+		text: 'Hi 🚀 bold',
+		style: 'BOLD',
+		codePoint: {offset: 5, length: 4},
+		utf16: {offset: 6, length: 4},
+		markdown: 'Hi 🚀 **bold**\n',
+	},
+	{
+		name: 'emoji inside a style',
+		text: '🚀🚀 x',
+		style: 'BOLD',
+		codePoint: {offset: 0, length: 2},
+		utf16: {offset: 0, length: 4},
+		markdown: '**🚀🚀** x\n',
+	},
+	{
+		name: 'flag before a link',
+		text: '🇫🇷 France',
+		style: 'LINK',
+		codePoint: {offset: 3, length: 6},
+		utf16: {offset: 5, length: 6},
+		markdown: '🇫🇷 [France](https://example.com)\n',
+	},
+	{
+		name: 'flag inside a link',
+		text: 'go 🇫🇷 now',
+		style: 'LINK',
+		codePoint: {offset: 3, length: 2},
+		utf16: {offset: 3, length: 4},
+		markdown: 'go [🇫🇷](https://example.com) now\n',
+	},
+	{
+		name: 'joined emoji before a style',
+		text: '👩‍👩‍👧 family ok',
+		style: 'ITALIC',
+		codePoint: {offset: 6, length: 6},
+		utf16: {offset: 9, length: 6},
+		markdown: '👩‍👩‍👧 *family* ok\n',
+	},
+	{
+		name: 'combining character inside a style',
+		text: 'cafe\u0301 ok',
+		style: 'ITALIC',
+		codePoint: {offset: 0, length: 5},
+		utf16: {offset: 0, length: 5},
+		markdown: '*cafe\u0301* ok\n',
+	},
+	{
+		name: 'combining character and emoji before a link',
+		text: 'cafe\u0301 🚀 here',
+		style: 'LINK',
+		codePoint: {offset: 8, length: 4},
+		utf16: {offset: 9, length: 4},
+		markdown: 'cafe\u0301 🚀 [here](https://example.com)\n',
+	},
+];
+
+CASES.forEach(({name, text, style, codePoint, utf16, markdown}) => {
+	Deno.test(`code-point offsets, ${name}`, () => {
+		assertEquals(getRangeMarkdown(text, codePoint, style, 'code-point'), markdown);
+	});
+	Deno.test(`utf-16 offsets, ${name}`, () => {
+		assertEquals(getRangeMarkdown(text, utf16, style, 'utf-16'), markdown);
+	});
+});
+
+Deno.test('code-point offsets are the default', () => {
+	assertEquals(
+		draftToMarkdown({
+			blocks: [{key: 'block', text: '🚀 go', type: 'unstyled', depth: 0, inlineStyleRanges: [{offset: 2, length: 2, style: 'BOLD'}], entityRanges: []}],
+			entityMap: {},
+		}, {}),
+		'🚀 **go**\n',
+	);
+});
+
+Deno.test('utf-16 offsets inside a surrogate pair are moved to the start of the character', () => {
+	assertEquals(getRangeMarkdown('a🚀b', {offset: 2, length: 2}, 'BOLD', 'utf-16'), 'a**🚀b**\n');
+});
+
+/**
+ * Function returns the markdown of one block with the given style ranges.
+ */
+function getStylesMarkdown(text: string, inlineStyleRanges: {offset: number; length: number; style: string}[]): string {
+	return draftToMarkdown({
+		blocks: [{key: 'block', text, type: 'unstyled', depth: 0, inlineStyleRanges, entityRanges: []}],
+		entityMap: {},
+	}, {});
+}
+
+Deno.test('overlapping styles keep their delimiter runs apart', () => {
+	assertEquals(
+		getStylesMarkdown('a.b', [{offset: 0, length: 2, style: 'BOLD'}, {offset: 1, length: 2, style: 'ITALIC'}]),
+		'<strong>a<em>.</em></strong>*b*\n',
+	);
+});
+
+Deno.test('adjacent styles keep their delimiter runs apart', () => {
+	assertEquals(
+		getStylesMarkdown('ab', [{offset: 0, length: 1, style: 'BOLD'}, {offset: 1, length: 1, style: 'ITALIC'}]),
+		'<strong>a</strong>*b*\n',
+	);
+	assertEquals(
+		getStylesMarkdown('ab', [{offset: 0, length: 1, style: 'ITALIC'}, {offset: 1, length: 1, style: 'BOLD'}]),
+		'_a_**b**\n',
+	);
+	assertEquals(
+		getStylesMarkdown('a b', [{offset: 0, length: 1, style: 'BOLD'}, {offset: 2, length: 1, style: 'BOLD'}]),
+		'**a** **b**\n',
+	);
+});
+
+Deno.test('a literal backtick is escaped in a block with a code span', () => {
+	assertEquals(getStylesMarkdown('use ` and code', [{offset: 10, length: 4, style: 'CODE'}]), 'use \\` and `code`\n');
+});
+
+Deno.test('discord escapes a > at the start of a line and the || of spoilers', () => {
+	const getMarkdown = (text: string) => draftToMarkdown({
+		blocks: [{key: 'block', text, type: 'unstyled', depth: 0, inlineStyleRanges: [], entityRanges: []}],
+		entityMap: {},
+	}, {}, undefined, {flavor: 'discord'});
+	assertEquals(getMarkdown('> not a quote'), '\\> not a quote\n');
+	assertEquals(getMarkdown('a ||spoiler|| b'), 'a \\|\\|spoiler\\|\\| b\n');
+});
+
+Deno.test('slack link text can\'t end the link', () => {
+	assertEquals(
+		draftToMarkdown({
+			blocks: [{key: 'block', text: 'a|b>c', type: 'unstyled', depth: 0, inlineStyleRanges: [], entityRanges: [{offset: 0, length: 5, key: 0}]}],
+			entityMap: LINK,
+		}, {}, undefined, {flavor: 'slack'}),
+		'<https://example.com|a∣b&gt;c>\n',
+	);
+});
+
+Deno.test('items deeper than their parent are indented by the width of the markers', () => {
+	const getMarkdown = (blocks: {text: string; type: string; depth: number}[]) => draftToMarkdown({
+		blocks: blocks.map(block => ({key: block.text, ...block, inlineStyleRanges: [], entityRanges: []})),
+		entityMap: {},
+	}, {});
+	assertEquals(getMarkdown([{text: 'deep', type: 'unordered-list-item', depth: 2}]), '- deep\n');
+	assertEquals(
+		getMarkdown([{text: 'top', type: 'unordered-list-item', depth: 0}, {text: 'deep', type: 'unordered-list-item', depth: 2}]),
+		'- top\n    - deep\n',
+	);
+	assertEquals(
+		getMarkdown([{text: 'top', type: 'ordered-list-item', depth: 0}, {text: 'deep', type: 'ordered-list-item', depth: 2}]),
+		'1. top\n      1. deep\n',
+	);
+});
+
+Deno.test('ids and classes that would end attribute syntax aren\'t written as shorthand', () => {
+	assertEquals(
+		draftToMarkdown({
+			blocks: [{
+				key: 'block',
+				text: 'text',
+				type: 'unstyled',
+				depth: 0,
+				inlineStyleRanges: [],
+				entityRanges: [],
+				data: {id: 'x y}', className: 'ok a{b'},
+			}],
+			entityMap: {},
+		}, {}, undefined, {blockDataRendering: 'attributes'}),
+		'text {id="x y}" .ok}\n',
+	);
+});
+
+Deno.test('yaml keys read as booleans or null are quoted', () => {
+	assertEquals(
+		getFrontMatter({blocks: [], entityMap: {}}, {metadata: () => ({null: 1, true: 2, yes: 3, on: 4, title: 5})}),
+		'---\n"null": 1\n"true": 2\n"yes": 3\n"on": 4\ntitle: 5\n---\n\n',
+	);
+});
+
+/**
+ * Content with lists, code, styles and a link with a title, read back the same from its markdown.
+ */
+const ROUND_TRIP_CONTENT: EditorContent = {
+	blocks: [
+		{
+			key: 'styles',
+			text: 'Bold, italic and code',
+			type: 'unstyled',
+			depth: 0,
+			inlineStyleRanges: [{offset: 0, length: 4, style: 'BOLD'}, {offset: 6, length: 6, style: 'ITALIC'}, {offset: 17, length: 4, style: 'CODE'}],
+			entityRanges: [],
+			data: {},
+		},
+		{key: 'ordered', text: 'one', type: 'ordered-list-item', depth: 0, inlineStyleRanges: [], entityRanges: [], data: {}},
+		{key: 'nested', text: 'nested', type: 'unordered-list-item', depth: 1, inlineStyleRanges: [], entityRanges: [], data: {}},
+		{key: 'code', text: 'const a = 1;', type: 'code-block', depth: 0, inlineStyleRanges: [], entityRanges: [], data: {language: 'js'}},
+		{key: 'link', text: 'See the docs', type: 'unstyled', depth: 0, inlineStyleRanges: [], entityRanges: [{offset: 8, length: 4, key: 0}], data: {}},
+	],
+	entityMap: {0: {type: 'LINK', mutability: 'MUTABLE', data: {url: 'https://example.com', title: 'Docs "v2"'}}},
+};
+
+/**
+ * Function returns the content without the block keys, which aren't kept by a round trip.
+ */
+function withoutKeys({blocks, entityMap}: EditorContent): string {
+	return JSON.stringify({
+		blocks: blocks.map(({type, depth, text, inlineStyleRanges, entityRanges, data}) => ({
+			type,
+			depth,
+			text,
+			inlineStyleRanges,
+			entityRanges,
+			data,
+		})),
+		entityMap,
+	});
+}
+
+(['inline', 'reference', 'collapsed'] as const).forEach(linkStyle => {
+	Deno.test(`content is read back from its markdown, with ${linkStyle} links`, () => {
+		const markdown = draftToMarkdown(ROUND_TRIP_CONTENT, {}, undefined, {linkStyle});
+		assertEquals(withoutKeys(markdownToDraft(markdown, {linkStyle})), withoutKeys(ROUND_TRIP_CONTENT));
+	});
+});
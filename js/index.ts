@@ -1,4 +1,135 @@
-import {isEmptyString, forEach, isList} from './common.ts';
+import {convertBlockOffsets, getTextLength, isAtomicBlock, isCodeBlock} from './common.ts';
+import {escapeHtml, getCharacterMarkdown, getEscapedText, type MarkdownEscaping} from './escape.ts';
+import {EditorContentError, repairEditorContent, type ValidationIssue} from './validate.ts';
+import type {Flavor, FlavorName, HardBreakStyle} from './flavors.ts';
+import {getDetectionHtml, getDetectionMarkdown, getDetections, getLegacyHashtagDetector, type Detection, type Detector} from './detect.ts';
+import type {
+	BlockContent,
+	Blockquote,
+	FootnoteDefinition,
+	List,
+	ListItem,
+	PhrasingContent,
+	Position,
+	Root,
+} from './mdast.ts';
+import {
+	getMarkdownContext,
+	getPhrasingMarkdown,
+	mdastToMarkdown,
+	mdastToMarkdownWithSourceMap,
+	trimLeadingZeros,
+	trimTrailingZeros,
+	type FormatOptions,
+	type LinkReferenceIds,
+	type LinkStyle,
+	type MarkdownContext,
+} from './mdastToMarkdown.ts';
+import {getBlockAttributes, type BlockDataMapper, type BlockDataRendering} from './blockData.ts';
+import {getHtmlContext, getPhrasingHtml, getStandardMdast, mdastToHtml} from './mdastToHtml.ts';
+import {getPhrasingText, mdastToPlainText, type PlainTextOptions} from './mdastToPlainText.ts';
+import {resolveAssets, type AssetManifestEntry, type AssetOptions} from './assets.ts';
+import {addHeadingAnchors, type TableOfContentsOptions} from './toc.ts';
+import {getFrontMatter, getTitleBlock, getTitlePlugin, type FrontMatterOptions} from './frontMatter.ts';
+import type {SourceMap} from './sourceMap.ts';
+import {getDiffContent, type DiffOptions} from './diff.ts';
+import {getExcerptContent, type ExcerptOptions, type MarkdownExcerpt} from './excerpt.ts';
+import {
+	getPlugins,
+	getPluginStyles,
+	getWhitespaceStyles,
+	postProcessOutput,
+	type BlockHookContext,
+	type OutputTarget,
+	type Plugin,
+} from './plugins.ts';
+
+export {markdownToDraft} from './markdownToDraft.ts';
+export type {MarkdownEscaping} from './escape.ts';
+export {EditorContentError, repairEditorContent, validateEditorContent} from './validate.ts';
+export type {ValidationIssue} from './validate.ts';
+export {
+	getEmailDetector,
+	getHashtagDetector,
+	getLegacyHashtagDetector,
+	getMentionDetector,
+	getUrlDetector,
+} from './detect.ts';
+export type {Detection, Detector, DetectorTemplate} from './detect.ts';
+export {extendFlavor, flavors} from './flavors.ts';
+export {getPhrasingHtml, mdastToHtml} from './mdastToHtml.ts';
+export {getPhrasingText, mdastToPlainText} from './mdastToPlainText.ts';
+export type {PlainTextLinks, PlainTextOptions} from './mdastToPlainText.ts';
+export {getBlockStyle} from './blockData.ts';
+export {getAssets, resolveAssets} from './assets.ts';
+export {getHeadingOutline, getSlug} from './toc.ts';
+export type {HeadingOutlineEntry, TableOfContentsOptions} from './toc.ts';
+export {getFrontMatter} from './frontMatter.ts';
+export {createSourceMap} from './sourceMap.ts';
+export type {SourceLocation, SourceMap, SourceMapping, SourceMappingKind} from './sourceMap.ts';
+export type {FrontMatterFormat, FrontMatterOptions} from './frontMatter.ts';
+export type {BlockChange, BlockChangeType, DiffMarkup, DiffOptions} from './diff.ts';
+export type {ExcerptBoundary, ExcerptOptions, MarkdownExcerpt} from './excerpt.ts';
+export type {Asset, AssetManifestEntry, AssetOptions, AssetResolver, ResolvedAssets} from './assets.ts';
+export type {BlockDataMapper, BlockDataRendering} from './blockData.ts';
+export {
+	blockquotePlugin,
+	defaultPlugins,
+	entityPlugin,
+	getCustomEntityPlugin,
+	headingPlugin,
+	inlineStylePlugin,
+	listPlugin,
+	paragraphPlugin,
+} from './plugins.ts';
+export type {
+	BlockHookContext,
+	EntityHookContext,
+	InlineStyleHookContext,
+	OutputTarget,
+	Plugin,
+	PostProcessContext,
+	TreeHookContext,
+} from './plugins.ts';
+export type {Flavor, FlavorName, HardBreakStyle} from './flavors.ts';
+export {
+	addInlineStyleMarkdown,
+	getCodeSpanMarkdown,
+	getPhrasingMarkdown,
+	mdastToMarkdown,
+	mdastToMarkdownWithSourceMap,
+	trimLeadingZeros,
+	trimTrailingZeros,
+} from './mdastToMarkdown.ts';
+export type {FormatOptions, LinkReferenceIds, LinkStyle} from './mdastToMarkdown.ts';
+export type {
+	BlockContent,
+	BlockAttributes,
+	Blockquote,
+	Break,
+	Code,
+	Delete,
+	Emphasis,
+	FootnoteDefinition,
+	FootnoteReference,
+	Heading,
+	Html,
+	Image,
+	InlineCode,
+	InlineStyle,
+	Link,
+	List,
+	ListItem,
+	MdastNode,
+	NodeData,
+	Paragraph,
+	PhrasingContent,
+	Point,
+	Position,
+	Root,
+	Strong,
+	Text,
+} from './mdast.ts';
 
 export interface Range {
 	offset: number;
@@ -65,18 +196,22 @@ export interface PreSection {
 	offset: number;
 	length: number;
 	key?: number;
-	type: 'ENTITY' | 'HASHTAG';
+	detection?: Detection;
+	type: 'ENTITY' | 'DETECTION';
 }
 
 export interface Section {
 	start: number; // PreSection.offset
 	end: number; // PreSection.offset + PreSection.length
 	entityKey?: number; // PreSection.key
-	type?: 'ENTITY' | 'HASHTAG';
+	detection?: Detection; // PreSection.detection
+	type?: 'ENTITY' | 'DETECTION';
 }
 
 export type EntityMap = Record<string, Entity>;
 
+export type OffsetUnit = 'code-point' | 'utf-16';
+
 
 export const BOOLEAN_INLINE_STYLE_NAMES = ['SUBSCRIPT', 'SUPERSCRIPT', 'CODE', 'STRIKETHROUGH', 'UNDERLINE', 'ITALIC', 'BOLD', 'BLOCKQUOTE', 'CODE-BLOCK'] as const;
 export const STRING_INLINE_STYLE_NAMES = ['COLOR', 'BGCOLOR', 'FONTSIZE', 'FONTFAMILY', 'RAWCSS'] as const;
@@ -116,107 +251,201 @@ export type Config = Partial<{
 	printBreakLineLiteral: boolean;
 	blockTypesMapping: Partial<BlockTypesMapping>;
 	rawCssInlineStyles: boolean;
+	orderedListNumbering: 'sequential' | 'ones';
+	markdownEscaping: MarkdownEscaping;
+	htmlStyleTransform: CustomStyleTransform;
+	/** Markup of the output, by name or as a flavor object. Without it, CommonMark is written with __ underline and ~~ strikethrough */
+	flavor: FlavorName | Flavor;
+	/** Markup of newlines in the text of a block, overriding the one of the flavor */
+	hardBreakStyle: HardBreakStyle;
+	/** Html element written for each block type by draftToHtml */
+	htmlBlockTags: Record<string, string>;
+	/** Transform for entities, used by draftToMdast and draftToHtml */
+	customEntityTransform: CustomEntityTransform;
+	/** How block data like text alignment or ids is written, it's dropped by default */
+	blockDataRendering: BlockDataRendering;
+	/** Allowlist of the block data keys rendered */
+	blockDataKeys: string[];
+	/** Mappers of block data keys to attributes, by key */
+	blockDataMappers: Record<string, BlockDataMapper>;
+	/** How links and images are written in markdown, inline or as references defined at the end */
+	linkStyle: LinkStyle;
+	/** Ids of full references, numbered by default */
+	linkReferenceIds: LinkReferenceIds;
+	/**
+	 * Formatting of the markdown, with blank lines between blocks, tight lists and paragraphs optionally wrapped.
+	 * It replaces the separators of emptyLineBeforeBlock and printBreakLineLiteral
+	 */
+	format: FormatOptions;
+	/**
+	 * Ids for headings slugged from their text as GitHub does, written as configured by blockDataRendering in markdown,
+	 * or in attribute syntax when it's none
+	 */
+	headingIds: boolean;
+	/** Table of contents listing the headings, it gives the headings ids */
+	tableOfContents: TableOfContentsOptions;
+	/** Metadata of the content written as front matter by draftToMarkdown */
+	frontMatter: FrontMatterOptions;
+	/** Plugins rendering custom blocks, entities and inline styles, run before the default plugins */
+	plugins: Plugin[];
+	/** Detectors for hashtags, mentions or urls in plain text, replacing the legacy hashConfig detector */
+	detectors: Detector[];
+	/** Unit of the range offsets, draftjs uses code points */
+	offsetUnit: OffsetUnit;
+	/** Throw an EditorContentError for invalid input instead of repairing it */
+	strict: boolean;
+	/** Called with the issues repaired or skipped in lenient mode */
+	onValidationIssues: (issues: ValidationIssue[]) => void;
+	/**
+	 * Called by draftToMarkdown with the source map of the markdown, front matter included.
+	 * Its offsets don't follow changes made to the markdown by the postProcess hooks of plugins.
+	 */
+	onSourceMap: (sourceMap: SourceMap) => void;
 }>
 
 /**
- * Mapping block-type to corresponding markdown symbol.
- */
-const defaultBlockTypesMapping: BlockTypesMapping = {
-	unstyled: '',
-	'header-one': '# ',
-	'header-two': '## ',
-	'header-three': '### ',
-	'header-four': '#### ',
-	'header-five': '##### ',
-	'header-six': '###### ',
-	'unordered-list-item': '- ',
-	'ordered-list-item': '1. ',
-	blockquote: '> ',
-	code: '    ',
-};
+ * A run of text in a block over which the inline styles don't change.
+ */
+interface StyleRun {
+	styles: SingleInlineStyles;
+	start: number;
+	end: number;
+}
+
+interface TextNode {
+	kind: 'text' | 'code';
+	run: StyleRun;
+}
+
+interface StyleNode {
+	kind: 'style';
+	style: string;
+	children: InlineNode[];
+}
+
+interface SectionNode {
+	kind: 'section';
+	section: Section;
+	children: InlineNode[];
+}
+
+type InlineNode = TextNode | StyleNode | SectionNode;
 
 /**
- * Function to check if the block is an atomic entity block.
+ * A text run or section with the delimited styles applying to it, before nesting.
  */
-function isAtomicBlock(block: Block): boolean {
-	// if (block.type === 'atomic' || (block.entityRanges.length > 0 && isEmptyString(block.text))) {
-	// eslint-disable-next-line @typescript-eslint/no-unsafe-call
-	if (block.entityRanges.length > 0 && isEmptyString(block.text)) {
-		return true;
-	}
-	return false;
+interface InlineItem {
+	styles: string[];
+	node: TextNode | SectionNode;
 }
 
 /**
- * Function will return markdown for Entity.
- * The generic means that if it inputs undefined in text it can output undefined too.
+ * State shared while building the mdast nodes of a block.
  */
-function getEntityMarkdown(entity: Entity, text: string, customEntityTransform: CustomEntityTransform): string {
-	if (typeof customEntityTransform === 'function') {
-		const html = customEntityTransform(entity, text);
-		if (typeof html !== 'undefined') {
-			return html;
-		}
-	}
-	switch (entity.type) {
-		case 'LINK':
-		case 'MENTION':
-			return `[${text}](${entity.data.url as string})`;
-		case 'IMAGE':
-			return `![${entity.data.alt as string || ''}](${entity.data.src as string})`;
-		case 'EMBEDDED_LINK':
-			return `<iframe width="${entity.data.width as number}" height="${
-				entity.data.height as number
-			}" src="${entity.data.src as string}" frameBorder="0" allowFullScreen />`;
-		default:
-			return text;
+interface InlineContext {
+	block: Block;
+	/** 1-based index of the block, the line of the positions in it */
+	line: number;
+	entityMap: EntityMap;
+	plugins: Plugin[];
+	/** Inline styles handled by the plugins */
+	pluginStyles: string[];
+	/** Inline styles of plugins keeping the whitespace at their edges */
+	whitespaceStyles: string[];
+	escapedText: string[];
+	offsetUnit: OffsetUnit;
+	markdownContext: MarkdownContext;
+	output: Output;
+	/** Footnote definitions of the tree, added by entities */
+	footnotes: FootnoteDefinition[];
+}
+
+/**
+ * Output a tree is built for. Entity transforms and detector templates are written
+ * in the output directly, given the text of their nodes in it.
+ */
+interface Output {
+	target: OutputTarget;
+	getText: (nodes: PhrasingContent[]) => string;
+	getDetectionText: (detection: Detection, nodes: PhrasingContent[]) => string;
+}
+
+/**
+ * The open lists of the tree, indexed by depth.
+ * Lists made only to hold a deeper list have no type, so no item continues them.
+ */
+type ListStack = {list: List; type?: BlockType}[];
+
+/**
+ * The quote of the previous block, which a following quote at the same level joins.
+ */
+interface OpenQuote {
+	node: Blockquote;
+	/** Depth of the list item the quote is in, 0 outside of lists */
+	level: number;
+}
+
+/**
+ * Function returns the position of a span of the text of a block, in the offset unit of the content.
+ */
+function getPosition(context: InlineContext, start: number, end: number): Position {
+	const {block, line, offsetUnit} = context;
+	const getColumn = (offset: number): number => getTextLength(block.text.substring(0, offset), offsetUnit) + 1;
+	return {
+		start: {line, column: getColumn(start), blockKey: block.key},
+		end: {line, column: getColumn(end), blockKey: block.key},
+	};
+}
+
+/**
+ * Function adds a footnote definition and returns its identifier.
+ * Footnotes without a label are numbered, skipping numbers used as labels.
+ */
+function addFootnote(footnotes: FootnoteDefinition[], children: BlockContent[], position: Position, label?: string): string {
+	const identifiers = new Set(footnotes.map(footnote => footnote.identifier));
+	if (label !== undefined && identifiers.has(label)) return label;
+	let identifier = label;
+	for (let number = footnotes.length + 1; identifier === undefined || identifiers.has(identifier); number += 1) {
+		identifier = String(number);
 	}
+	footnotes.push({type: 'footnoteDefinition', identifier, label: identifier, children, position});
+	return identifier;
 }
 
 /**
- * The function returns an array of hashtag-sections in blocks.
- * These will be areas in block which have hashtags applicable to them.
+ * Function will return the mdast nodes for an entity from the entity hooks of the plugins,
+ * given the nodes of its text and the section of the block it covers.
+ * Entities no plugin renders are written as their text.
  */
-function getHashtagRanges(text: string, hashConfig: HashConfig): PreSection[] {
-	const preSections: PreSection[] = [];
-	let counter = 0;
-	let startIndex = 0;
-	const { trigger, separator } = hashConfig;
-	for (; text.length > 0 && startIndex >= 0;) {
-		if (text.startsWith(trigger)) {
-			// If the working buffer starts with a hashConfig.trigger (default '#')
-			startIndex = 0;
-			counter = 0;
-			text = text.substr(trigger.length);
-		} else {
-			startIndex = text.indexOf(separator + trigger);
-			if (startIndex >= 0) {
-				text = text.substr(startIndex + (separator + trigger).length);
-				counter += startIndex + separator.length;
-			}
-		}
-		if (startIndex >= 0) {
-			const endIndex =
-				text.indexOf(separator) >= 0 ? text.indexOf(separator) : text.length;
-			const hashtagText = text.substr(0, endIndex);
-			if (hashtagText && hashtagText.length > 0) {
-				preSections.push({
-					offset: counter,
-					length: hashtagText.length + trigger.length,
-					type: 'HASHTAG',
-				});
-			}
-			counter += trigger.length;
-		}
+function getEntityNodes(
+	entity: Entity,
+	children: PhrasingContent[],
+	section: Section,
+	position: Position,
+	context: InlineContext,
+): PhrasingContent[] {
+	const hookContext = {
+		block: context.block,
+		section,
+		position,
+		target: context.output.target,
+		flavor: context.markdownContext.flavor,
+		config: context.markdownContext.config,
+		getText: context.output.getText,
+		addFootnote: (nodes: BlockContent[], label?: string) => addFootnote(context.footnotes, nodes, position, label),
+	};
+	for (const plugin of context.plugins) {
+		const nodes = plugin.entity?.(entity, children, hookContext);
+		if (nodes !== undefined) return nodes;
 	}
-	return preSections;
+	return children;
 }
 
 /**
  * The function returns an array of entity-sections in blocks.
  * These will be areas in block which have same entity or no entity applicable to them.
  */
-function getSections(block: Block, hashConfig: HashConfig): Section[] {
+function getSections(block: Block, detectors: Detector[]): Section[] {
 	const sections: Section[] = [];
 	let lastOffset = 0;
 	let sectionRanges: PreSection[] = block.entityRanges.map(range => {
@@ -230,7 +459,12 @@ function getSections(block: Block, hashConfig: HashConfig): Section[] {
 	});
 
 	sectionRanges = sectionRanges.concat(
-		getHashtagRanges(block.text, hashConfig),
+		getDetections(block, detectors).map(detection => ({
+			offset: detection.offset,
+			length: detection.length,
+			detection,
+			type: 'DETECTION',
+		})),
 	);
 
 	sectionRanges = sectionRanges.sort((s1, s2) => s1.offset - s2.offset);
@@ -238,13 +472,14 @@ function getSections(block: Block, hashConfig: HashConfig): Section[] {
 		if (r.offset > lastOffset) {
 			sections.push({
 				start: lastOffset,
-				end: r.offset - 1,
+				end: r.offset,
 			});
 		}
 		sections.push({
 			start: r.offset,
 			end: r.offset + r.length,
 			entityKey: r.key,
+			detection: r.detection,
 			type: r.type,
 		});
 		lastOffset = r.offset + r.length;
@@ -276,57 +511,104 @@ function isJSONObjectString(jsonString: string): boolean {
 }
 
 /**
- * The function will return array of inline styles applicable to the block.
+ * Function returns the name and value of the inline style for a style string of an inline style range,
+ * or undefined if the style isn't one written by the library.
+ */
+function parseInlineStyle(
+	style: string,
+	config: Config,
+	pluginStyles: string[] = [],
+): [InlineStyleNames, string | boolean] | undefined {
+	if (style.startsWith('color-')) {
+		return ['COLOR', style.substring(6)];
+	} else if (style.startsWith('bgcolor-')) {
+		return ['BGCOLOR', style.substring(8)];
+	} else if (style.startsWith('fontsize-')) {
+		return ['FONTSIZE', style.substring(9)];
+	} else if (style.startsWith('fontfamily-')) {
+		return ['FONTFAMILY', style.substring(11)];
+	} else if (BOOLEAN_INLINE_STYLE_NAMES.includes(style as BooleanInlineStyleNames)) {
+		// Boolean style ranges
+		return [style as BooleanInlineStyleNames, true];
+	} else if (pluginStyles.includes(style)) {
+		return [style as InlineStyleNames, true];
+	} else if ((config?.rawCssInlineStyles ?? false) && isJSONObjectString(style)) {
+		// It's CSS in stringified JSON
+		return ['RAWCSS', Object.entries(JSON.parse(style) as Record<string, string>)
+			.map(([k, v]) => {
+				k = k.replace(/[A-Z]/g, match => `-${match.toLowerCase()}`);
+				return `${k}:${v}`
+			}).join(';') + ';'];
+	}
+	return undefined;
+}
+
+/**
+ * Function returns true if two sets of inline styles are the same.
+ */
+function sameStyles(styles1: SingleInlineStyles, styles2: SingleInlineStyles, pluginStyles: string[]): boolean {
+	return INLINE_STYLE_NAMES.every(key => styles1[key] === styles2[key])
+		&& pluginStyles.every(key => hasStyle(styles1, key) === hasStyle(styles2, key));
+}
+
+/**
+ * Function returns true if a boolean inline style, built-in or handled by a plugin, is set.
  */
-function getStyleArrayForBlock(block: Block, config: Config): InlineStyles {
+function hasStyle(styles: SingleInlineStyles, style: string): boolean {
+	return !!(styles as Record<string, string | boolean | undefined>)[style];
+}
+
+/**
+ * The function returns the runs of a block over which the inline styles don't change.
+ * Each range is parsed once, and the runs are built in a single sweep over the range boundaries.
+ * Where ranges setting the same string style overlap, the later range wins.
+ * Styles handled by plugins are kept along the built-in ones.
+ */
+function getStyleRuns(block: Block, config: Config, pluginStyles: string[] = []): StyleRun[] {
 	const {text, inlineStyleRanges} = block;
-	const inlineStyles: InlineStyles = {
-		COLOR: new Array<string>(text.length),
-		BGCOLOR: new Array<string>(text.length),
-		FONTSIZE: new Array<string>(text.length),
-		FONTFAMILY: new Array<string>(text.length),
-		SUBSCRIPT: new Array<boolean>(text.length),
-		SUPERSCRIPT: new Array<boolean>(text.length),
-		CODE: new Array<boolean>(text.length),
-		STRIKETHROUGH: new Array<boolean>(text.length),
-		UNDERLINE: new Array<boolean>(text.length),
-		ITALIC: new Array<boolean>(text.length),
-		BOLD: new Array<boolean>(text.length),
-		BLOCKQUOTE: new Array<boolean>(text.length),
-		'CODE-BLOCK': new Array<boolean>(text.length),
-		RAWCSS: new Array<string>(text.length),
-		length: text.length,
-	};
-	if (inlineStyleRanges && inlineStyleRanges.length > 0) {
-		inlineStyleRanges.forEach(inlineStyleRange => {
-			const { offset, length } = inlineStyleRange;
-			const lastOffset = offset + length;
-			// This is ultra jank. It creates arrays the length of the characters and sets the styles to each one of them
-			for (let i = offset; i < lastOffset; i++) {
-				if (inlineStyleRange.style.startsWith('color-')) {
-					inlineStyles.COLOR[i] = inlineStyleRange.style.substring(6);
-				} else if (inlineStyleRange.style.startsWith('bgcolor-')) {
-					inlineStyles.BGCOLOR[i] = inlineStyleRange.style.substring(8);
-				} else if (inlineStyleRange.style.startsWith('fontsize-')) {
-					inlineStyles.FONTSIZE[i] = inlineStyleRange.style.substring(9);
-				} else if (inlineStyleRange.style.startsWith('fontfamily-')) {
-					inlineStyles.FONTFAMILY[i] = inlineStyleRange.style.substring(11);
-				//} else if ((BOOLEAN_INLINE_STYLE_NAMES as unknown as string[]).includes(inlineStyleRange.style)) {
-				} else if (BOOLEAN_INLINE_STYLE_NAMES.includes(inlineStyleRange.style as BooleanInlineStyleNames)) {
-					// Boolean style ranges
-					inlineStyles[inlineStyleRange.style as BooleanInlineStyleNames][i] = true;
-				} else if (isJSONObjectString(inlineStyleRange.style) && (config?.rawCssInlineStyles ?? false)) {
-					// It's CSS in stringified JSON
-					inlineStyles.RAWCSS[i] = Object.entries(JSON.parse(inlineStyleRange.style) as Record<string, string>)
-						.map(([k, v]) => {
-							k = k.replace(/[A-Z]/g, match => `-${match.toLowerCase()}`);
-							return `${k}:${v}`
-						}).join(';') + ';';
-				}
-			}
+	const ranges: {start: number; end: number; name: InlineStyleNames; value: string | boolean}[] = [];
+	(inlineStyleRanges ?? []).forEach(range => {
+		const start = Math.max(0, range.offset);
+		const end = Math.min(text.length, range.offset + range.length);
+		const style = start < end ? parseInlineStyle(range.style, config, pluginStyles) : undefined;
+		if (style) {
+			ranges.push({start, end, name: style[0], value: style[1]});
+		}
+	});
+
+	const boundaries = [...new Set([0, text.length, ...ranges.flatMap(r => [r.start, r.end])])]
+		.sort((b1, b2) => b1 - b2);
+	const starting = new Map<number, number[]>();
+	ranges.forEach((range, index) => {
+		const indices = starting.get(range.start);
+		if (indices) {
+			indices.push(index);
+		} else {
+			starting.set(range.start, [index]);
+		}
+	});
+
+	const runs: StyleRun[] = [];
+	let active: number[] = [];
+	for (let i = 0; i < boundaries.length - 1; i += 1) {
+		const start = boundaries[i];
+		const end = boundaries[i + 1];
+		active = active
+			.filter(index => ranges[index].end > start)
+			.concat(starting.get(start) ?? [])
+			.sort((i1, i2) => i1 - i2);
+		const styles: SingleInlineStyles = {};
+		active.forEach(index => {
+			(styles as Record<string, string | boolean>)[ranges[index].name] = ranges[index].value;
 		});
+		const last = runs[runs.length - 1];
+		if (last && sameStyles(last.styles, styles, pluginStyles)) {
+			last.end = end;
+		} else {
+			runs.push({styles, start, end});
+		}
 	}
-	return inlineStyles;
+	return runs;
 }
 
 /**
@@ -334,18 +616,10 @@ function getStyleArrayForBlock(block: Block, config: Config): InlineStyles {
  * are same as that on the previous offset.
  */
 export function sameStyleAsPrevious(inlineStyles: InlineStyles, matchKeys: readonly InlineStyleNames[], index: number): boolean {
-	let sameStyled = true;
-	try {
-		if (index > 0 && index < inlineStyles.length) {
-			sameStyled = sameStyled && matchKeys.every(key => inlineStyles[key][index] === inlineStyles[key][index - 1]);
-		} else {
-			sameStyled = false;
-		}
-	} catch (error) {
-		console.log(error);
-		sameStyled = false;
+	if (index <= 0 || index >= inlineStyles.length) {
+		return false;
 	}
-	return sameStyled;
+	return matchKeys.every(key => inlineStyles[key]?.[index] === inlineStyles[key]?.[index - 1]);
 }
 
 /**
@@ -362,88 +636,33 @@ export function getStylesAtOffset(inlineStyles: InlineStyles, offset: number): S
 				 )
 }
 
-/**
- * For a given section in a block the function will return a further list of sections,
- * with similar inline styles applicable to them.
- */
-function getStyleSections(block: Block, matchKeys: readonly InlineStyleNames[], start: number, end: number, config: Config): StyleSection[] {
-	const styleSections: StyleSection[] = [];
-	const { text } = block;
-	if (text.length > 0) {
-		const inlineStyles = getStyleArrayForBlock(block, config);
-
-		for (let i = start; i < end; i += 1) {
-			if (i === start) {
-				styleSections.push({
-					styles: getStylesAtOffset(inlineStyles, i),
-					text: [text[i]],
-					start: i,
-					end: i + 1,
-				});
-			} else if (sameStyleAsPrevious(inlineStyles, matchKeys, i)) {
-				styleSections[styleSections.length - 1].text.push(text[i]);
-				styleSections[styleSections.length - 1].end = i + 1;
-			}
-		}
-	}
-	return styleSections;
-}
-
 /**
  * The function returns text for given section of block after doing required character replacements.
  */
 function getSectionText(text: string[]): string {
 	if (!text || text.length === 0) return '';
-	const chars = text.map(ch => {
-		switch (ch) {
-			case '\n':
-				return '\\s\\s\n';
-			case '&':
-				return '&amp;';
-			case '<':
-				return '&lt;';
-			case '>':
-				return '&gt;';
-			default:
-				return ch;
-		}
-	});
-	return chars.join('');
+	return text.map(getCharacterMarkdown).join('');
 }
 
 /**
- * Function returns markdown for inline style symbols.
- */
-export function addInlineStyleMarkdown(style: string, content: string, styleTransform: StyleTransform): string {
-	const value = styleTransform[style];
-	if (value === null || typeof value === 'undefined') return content;
-	let left: string, right: string;
-	if (typeof value === 'string') {
-		// It's a string
-		left = value;
-		right = value;
-	} else {
-		// It's an array
-		[left, right] = value;
-	}
-	return `${left}${content}${right}`;
-}
-
-/**
- * The method returns markup for section to which inline styles
- * BOLD, UNDERLINE, ITALIC, STRIKETHROUGH, CODE, SUPERSCRIPT, SUBSCRIPT are applicable.
+ * Function returns html for text applying inline style in styles property in a span.
+ * This only works for string inline styles.
+ * The escaped text of the whole block can be given, otherwise only the html replacements are done.
  */
-function getStyleTagSectionMarkdown(styles: StyleTransformKey[], text: string, styleTransform: StyleTransform): string {
-	return styles.reduce((acc, style) => addInlineStyleMarkdown(style, acc, styleTransform), text)
+export function addStylePropertyMarkdown(styleSection: StyleSection, escapedText?: string[]): string {
+	const {styles, text} = styleSection;
+	const content = escapedText
+		? escapedText.slice(styleSection.start, styleSection.end).join('')
+		: getSectionText(text);
+	const tags = getStylePropertyTags(styles);
+	return tags ? `${tags[0]}${content}${tags[1]}` : content;
 }
 
 /**
- * Function returns html for text applying inline style in styles property in a span.
- * This only works for string inline styles.
+ * Function returns the opening and closing span tags applying the string inline styles,
+ * or undefined if there are none.
  */
-export function addStylePropertyMarkdown(styleSection: StyleSection): string {
-	const {styles, text} = styleSection;
-	const content = getSectionText(text);
+function getStylePropertyTags(styles: SingleInlineStyles): [string, string] | undefined {
 	if (
 		styles && Object.keys(styles).length !== 0
 	) {
@@ -477,123 +696,357 @@ export function addStylePropertyMarkdown(styleSection: StyleSection): string {
 				break;
 			}
 		}
-		if (styleString.match(/^(?:;+|)$/)) return content;
-		return `<span style="${styleString}"${extra}>${content}</span>`;
+		if (styleString.match(/^(?:;+|)$/)) return undefined;
+		return [`<span style="${escapeHtml(styleString)}"${extra}>`, '</span>'];
 	}
-	return content;
+	return undefined;
+}
+
+/**
+ * Function returns true if the styles make a code span written with backticks.
+ * A CODE-BLOCK style inside a line is a code span too, unless it has its own transform.
+ */
+function isCodeSpan(styles: SingleInlineStyles, styleTransform: StyleTransform): boolean {
+	const transform = styles.CODE
+		? styleTransform.CODE
+		: styles['CODE-BLOCK'] ? styleTransform['CODE-BLOCK'] ?? styleTransform.CODE : undefined;
+	return typeof transform === 'string' && /^`+$/.test(transform);
 }
 
 /**
- * The method returns markdown for an entity section.
- * An entity section is a continuous section in a block
- * to which same entity or no entity is applicable.
+ * Function returns the style runs of a block clipped to a section.
+ * Sections are visited in order, so the search starts from the run the previous section ended in.
  */
-function getSectionMarkdown(
+function getSectionRuns(runs: StyleRun[], section: Section, cursor: {index: number}): StyleRun[] {
+	const sectionRuns: StyleRun[] = [];
+	while (cursor.index < runs.length && runs[cursor.index].end <= section.start) {
+		cursor.index += 1;
+	}
+	for (let i = cursor.index; i < runs.length && runs[i].start < section.end; i += 1) {
+		sectionRuns.push({
+			styles: runs[i].styles,
+			start: Math.max(runs[i].start, section.start),
+			end: Math.min(runs[i].end, section.end),
+		});
+	}
+	return sectionRuns;
+}
+
+/**
+ * Function returns the delimited inline styles of a run, outermost last,
+ * and whether the run is written as a code span.
+ * Styles handled by plugins are kept without a transform, they're outermost.
+ */
+function getRunStyles(
+	styles: SingleInlineStyles,
+	styleTransform: StyleTransform,
+	pluginStyles: string[],
+): [string[], boolean] {
+	const code = isCodeSpan(styles, styleTransform);
+	const runStyles = [...BOOLEAN_INLINE_STYLE_NAMES, ...pluginStyles]
+		.filter(style => hasStyle(styles, style))
+		.map(style => (style === 'CODE-BLOCK' && styleTransform['CODE-BLOCK'] === undefined ? 'CODE' : style))
+		.filter(style => !(code && style === 'CODE') && (styleTransform[style] !== undefined || pluginStyles.includes(style)));
+	return [[...new Set(runStyles)], code];
+}
+
+/**
+ * Function returns the inline items of a block: runs of text and code,
+ * and entity or detection sections holding the items inside them.
+ * Styles applying to a whole entity section are kept on the section so they can be written around it.
+ */
+function getInlineItems(
 	block: Block,
-	entityMap: EntityMap,
-	section: Section,
-	customEntityTransform: CustomEntityTransform,
-	config: Config
-): string {
-	const entitySectionMarkdown: string[] = [];
-	const styleTransform: StyleTransform = {
-		BOLD: '**',
-		ITALIC: '*',
-		UNDERLINE: '__',
-		STRIKETHROUGH: '~~',
-		CODE: '`',
-		'CODE-BLOCK': ['```\n', '\n```'],
-		BLOCKQUOTE: ['> ', ''],
-		SUPERSCRIPT: ['<sup>', '</sup>'],
-		SUBSCRIPT: ['<sub>', '</sub>'],
-		...(config?.customStyleTransform || {}),
+	runs: StyleRun[],
+	detectors: Detector[],
+	styleTransform: StyleTransform,
+	pluginStyles: string[],
+): InlineItem[] {
+	const items: InlineItem[] = [];
+	const cursor = {index: 0};
+	getSections(block, detectors).forEach(section => {
+		const sectionItems: InlineItem[] = getSectionRuns(runs, section, cursor).map(run => {
+			const [styles, code] = getRunStyles(run.styles, styleTransform, pluginStyles);
+			return {styles, node: {kind: code ? 'code' : 'text', run}};
+		});
+		if (section.type === undefined) {
+			items.push(...sectionItems);
+			return;
+		}
+		const shared = sectionItems.length > 0
+			? sectionItems[0].styles.filter(style => sectionItems.every(item => item.styles.includes(style)))
+			: [];
+		items.push({
+			styles: shared,
+			node: {
+				kind: 'section',
+				section,
+				children: buildInlineTree(sectionItems.map(item => ({
+					styles: item.styles.filter(style => !shared.includes(style)),
+					node: item.node,
+				}))),
+			},
+		});
+	});
+	return items;
+}
+
+/**
+ * Function nests the inline items into style nodes.
+ * Styles stay open as long as the following items share them, and when several styles open
+ * at the same item the one running the furthest is opened first, so overlapping ranges
+ * are written as nested delimiter runs.
+ */
+function buildInlineTree(items: InlineItem[]): InlineNode[] {
+	const root: InlineNode[] = [];
+	const stack: StyleNode[] = [];
+	const getLength = (item: InlineItem): number => (item.node.kind === 'section'
+		? item.node.section.end - item.node.section.start
+		: item.node.run.end - item.node.run.start);
+	const getRunLength = (style: string, index: number): number => {
+		let length = 0;
+		for (let i = index; i < items.length && items[i].styles.includes(style); i += 1) {
+			length += getLength(items[i]);
+		}
+		return length;
 	};
+	items.forEach((item, index) => {
+		const closed = stack.findIndex(node => !item.styles.includes(node.style));
+		if (closed >= 0) stack.length = closed;
+		item.styles
+			.filter(style => !stack.some(node => node.style === style))
+			.sort((s1, s2) => getRunLength(s2, index) - getRunLength(s1, index) || item.styles.indexOf(s2) - item.styles.indexOf(s1))
+			.forEach(style => {
+				const node: StyleNode = {kind: 'style', style, children: []};
+				(stack.length > 0 ? stack[stack.length - 1].children : root).push(node);
+				stack.push(node);
+			});
+		(stack.length > 0 ? stack[stack.length - 1].children : root).push(item.node);
+	});
+	return root;
+}
 
-	const styleSections = getStyleSections(
-		block,
-		BOOLEAN_INLINE_STYLE_NAMES,
-		section.start,
-		section.end,
-		config,
-	);
-	let styleSectionText = '';
-	styleSections.forEach(styleSection => {
-		const stylePropertySections = getStyleSections(
-			block,
-			STRING_INLINE_STYLE_NAMES,
-			styleSection.start,
-			styleSection.end,
-			config,
-		);
-		let stylePropertySectionText = '';
-		stylePropertySections.forEach(stylePropertySection => {
-			stylePropertySectionText += addStylePropertyMarkdown(
-				stylePropertySection,
-			);
-		});
-		styleSectionText += getStyleTagSectionMarkdown(
-			Object.keys(styleSection.styles),
-			stylePropertySectionText,
-			styleTransform,
-		);
+/**
+ * Function returns true if two runs have the same string inline styles.
+ */
+function sameStyleProperties(run1: StyleRun, run2: StyleRun): boolean {
+	return STRING_INLINE_STYLE_NAMES.every(style => run1.styles[style] === run2.styles[style]);
+}
+
+/**
+ * Function merges adjacent nodes of the same style, and adjacent text or code runs
+ * that are written the same way.
+ */
+function mergeInlineNodes(nodes: InlineNode[]): InlineNode[] {
+	const merged: InlineNode[] = [];
+	nodes.forEach(node => {
+		const last = merged[merged.length - 1];
+		if (node.kind === 'style' && last?.kind === 'style' && last.style === node.style) {
+			last.children.push(...node.children);
+		} else if (
+			(node.kind === 'code' && last?.kind === 'code')
+			|| (node.kind === 'text' && last?.kind === 'text' && sameStyleProperties(last.run, node.run))
+		) {
+			merged[merged.length - 1] = {kind: node.kind, run: {...last.run, end: node.run.end}};
+		} else {
+			merged.push(node);
+		}
 	});
-	entitySectionMarkdown.push(styleSectionText);
-	let sectionText = entitySectionMarkdown.join('');
-	if (section.type === 'ENTITY') {
-		if (section.entityKey !== undefined && section.entityKey !== null) {
-			sectionText = getEntityMarkdown(
-				entityMap[section.entityKey],
-				sectionText,
-				customEntityTransform,
-			);
+	merged.forEach(node => {
+		if (node.kind === 'style' || node.kind === 'section') {
+			node.children = mergeInlineNodes(node.children);
 		}
-	} else if (section.type === 'HASHTAG') {
-		sectionText = `[${sectionText}](${sectionText})`;
-	}
-	return sectionText;
+	});
+	return merged;
 }
 
 /**
- * Replace leading blank spaces by &nbsp;
+ * Function moves whitespace at the edges of style nodes out of them,
+ * as delimiters next to whitespace aren't read as emphasis.
+ * Style nodes left with only whitespace are removed. The whitespace of the kept styles stays in them.
  */
-export function trimLeadingZeros(sectionText: string): string {
-	if (sectionText) {
-		let replacedText = sectionText;
-		for (let i = 0; i < replacedText.length; i += 1) {
-			if (sectionText[i] === ' ') {
-				replacedText = replacedText.replace(' ', '&nbsp;');
+function hoistWhitespace(nodes: InlineNode[], text: string, keptStyles: string[]): InlineNode[] {
+	const hoisted: InlineNode[] = [];
+	const isPlainText = (node: InlineNode | undefined): node is TextNode => (
+		node?.kind === 'text' && STRING_INLINE_STYLE_NAMES.every(style => node.run.styles[style] === undefined)
+	);
+	nodes.forEach(node => {
+		if (node.kind === 'section' || (node.kind === 'style' && keptStyles.includes(node.style))) {
+			node.children = hoistWhitespace(node.children, text, keptStyles);
+		}
+		if (node.kind !== 'style' || keptStyles.includes(node.style)) {
+			hoisted.push(node);
+			return;
+		}
+		const children = hoistWhitespace(node.children, text, keptStyles);
+		const leading: InlineNode[] = [];
+		const trailing: InlineNode[] = [];
+		while (isPlainText(children[0]) && /\s/.test(text[children[0].run.start])) {
+			const {run} = children[0];
+			let end = run.start;
+			while (end < run.end && /\s/.test(text[end])) end += 1;
+			leading.push({kind: 'text', run: {...run, end}});
+			if (end === run.end) {
+				children.shift();
 			} else {
-				break;
+				children[0] = {kind: 'text', run: {...run, start: end}};
 			}
 		}
-		return replacedText;
+		while (isPlainText(children[children.length - 1]) && /\s/.test(text[(children[children.length - 1] as TextNode).run.end - 1])) {
+			const {run} = children[children.length - 1] as TextNode;
+			let start = run.end;
+			while (start > run.start && /\s/.test(text[start - 1])) start -= 1;
+			trailing.unshift({kind: 'text', run: {...run, start}});
+			if (start === run.start) {
+				children.pop();
+			} else {
+				children[children.length - 1] = {kind: 'text', run: {...run, end: start}};
+			}
+		}
+		hoisted.push(...leading);
+		if (children.length > 0) {
+			hoisted.push({...node, children});
+		}
+		hoisted.push(...trailing);
+	});
+	return mergeInlineNodes(hoisted);
+}
+
+/**
+ * Function returns the start and end of the text covered by an inline node.
+ */
+function getInlineNodeRange(node: InlineNode): [number, number] {
+	switch (node.kind) {
+		case 'text':
+		case 'code':
+			return [node.run.start, node.run.end];
+		case 'section':
+			return [node.section.start, node.section.end];
+		case 'style':
+			return [getInlineNodeRange(node.children[0])[0], getInlineNodeRange(node.children[node.children.length - 1])[1]];
 	}
-	return sectionText;
 }
 
 /**
- * Replace trailing blank spaces by &nbsp;
+ * Function returns the mdast nodes for a delimited inline style from the inline style hooks of the plugins.
+ * Styles no plugin renders are kept in inlineStyle nodes.
  */
-export function trimTrailingZeros(sectionText: string): string {
-	if (sectionText) {
-		let replacedText = sectionText;
-		for (let i = replacedText.length - 1; i >= 0; i -= 1) {
-			if (replacedText[i] === ' ') {
-				replacedText = `${replacedText.substring(
-					0,
-					i,
-				)}&nbsp;${replacedText.substring(i + 1)}`;
-			} else {
-				break;
+function getStyleNodes(
+	style: string,
+	children: PhrasingContent[],
+	position: Position,
+	context: InlineContext,
+): PhrasingContent[] {
+	const hookContext = {
+		block: context.block,
+		position,
+		target: context.output.target,
+		flavor: context.markdownContext.flavor,
+		config: context.markdownContext.config,
+	};
+	for (const plugin of context.plugins) {
+		const nodes = plugin.inlineStyle?.(style, children, hookContext);
+		if (nodes !== undefined) return nodes;
+	}
+	return [{type: 'inlineStyle', style, children, position}];
+}
+
+/**
+ * Function returns the text nodes for a span of the text of a block,
+ * with a break node for each newline in it.
+ */
+function getTextNodes(start: number, end: number, context: InlineContext): PhrasingContent[] {
+	const nodes: PhrasingContent[] = [];
+	let lineStart = start;
+	const addText = (lineEnd: number): void => {
+		if (lineEnd > lineStart) {
+			const value = context.block.text.substring(lineStart, lineEnd);
+			nodes.push({
+				type: 'text',
+				value,
+				position: getPosition(context, lineStart, lineEnd),
+				data: {markdown: context.escapedText.slice(lineStart, lineEnd).join(''), markdownValue: value},
+			});
+		}
+	};
+	for (let i = start; i < end; i += 1) {
+		if (context.block.text[i] === '\n') {
+			addText(i);
+			nodes.push({type: 'break', position: getPosition(context, i, i + 1)});
+			lineStart = i + 1;
+		}
+	}
+	addText(end);
+	return nodes;
+}
+
+/**
+ * The function returns the mdast nodes for inline nodes.
+ * Text nodes keep their escaped markdown in their data, and string inline styles
+ * are written as span tags in html nodes around them.
+ */
+function getPhrasingNodes(nodes: InlineNode[], context: InlineContext): PhrasingContent[] {
+	return nodes.flatMap((node): PhrasingContent[] => {
+		const [start, end] = getInlineNodeRange(node);
+		const position = getPosition(context, start, end);
+		switch (node.kind) {
+			case 'text': {
+				const text = getTextNodes(start, end, context);
+				const {target} = context.output;
+				const tags = target === 'html' || (target === 'markdown' && context.markdownContext.flavor.html)
+					? getStylePropertyTags(node.run.styles)
+					: undefined;
+				if (!tags) return text;
+				return [
+					{type: 'html', value: tags[0], position: getPosition(context, start, start)},
+					...text,
+					{type: 'html', value: tags[1], position: getPosition(context, end, end)},
+				];
+			}
+			case 'code':
+				return [{type: 'inlineCode', value: context.block.text.substring(start, end), position}];
+			case 'style':
+				return getStyleNodes(node.style, getPhrasingNodes(node.children, context), position, context);
+			case 'section': {
+				const {section} = node;
+				const children = getPhrasingNodes(node.children, context);
+				if (section.type === 'ENTITY' && section.entityKey !== undefined && section.entityKey !== null) {
+					return getEntityNodes(context.entityMap[section.entityKey], children, section, position, context);
+				}
+				if (section.type === 'DETECTION' && section.detection) {
+					return [{type: 'html', value: context.output.getDetectionText(section.detection, children), position}];
+				}
+				return children;
 			}
 		}
-		return replacedText;
+	});
+}
+
+/**
+ * Function returns the mdast nodes for the content of a block.
+ */
+function getBlockContentNodes(block: Block, detectors: Detector[], context: InlineContext): PhrasingContent[] {
+	if (isAtomicBlock(block)) {
+		const {key} = block.entityRanges[0];
+		return getEntityNodes(
+			context.entityMap[key],
+			[], // atomics in Wix are ' ' and the original version of this library passed in undefined
+			{start: 0, end: block.text.length, entityKey: key, type: 'ENTITY'},
+			getPosition(context, 0, block.text.length),
+			context,
+		);
 	}
-	return sectionText;
+	const {config, styleTransform} = context.markdownContext;
+	const {pluginStyles, whitespaceStyles} = context;
+	const runs = getStyleRuns(block, config, pluginStyles);
+	const items = getInlineItems(block, runs, detectors, styleTransform, pluginStyles);
+	const nodes = hoistWhitespace(mergeInlineNodes(buildInlineTree(items)), block.text, whitespaceStyles);
+	return getPhrasingNodes(nodes, context);
 }
 
 /**
  * Function will return the markdown for block content.
+ * Hashtags are detected as set by hashConfig, unless detectors are given in the config.
  */
 export function getBlockContentMarkdown(
 	block: Block,
@@ -602,142 +1055,404 @@ export function getBlockContentMarkdown(
 	customEntityTransform: CustomEntityTransform,
 	config: Config,
 ): string {
-	if (isAtomicBlock(block)) {
-		return getEntityMarkdown(
-			entityMap[block.entityRanges[0].key],
-			'', // atomics in Wix are ' ' and the original version of this library passed in undefined
-			customEntityTransform,
-		);
+	const markdownContext = getMarkdownContext(config);
+	const plugins = getPlugins({...config, customEntityTransform});
+	const context: InlineContext = {
+		block,
+		line: 1,
+		entityMap,
+		plugins,
+		pluginStyles: getPluginStyles(plugins),
+		whitespaceStyles: getWhitespaceStyles(plugins),
+		escapedText: getEscapedText(block, entityMap, config, markdownContext.flavor),
+		offsetUnit: 'utf-16',
+		markdownContext,
+		output: getMarkdownOutput(markdownContext),
+		footnotes: [],
+	};
+	const detectors = config?.detectors ?? [getLegacyHashtagDetector(hashConfig)];
+	const nodes = getBlockContentNodes(block, detectors, context);
+	const markdown = getPhrasingMarkdown(nodes, undefined, undefined, markdownContext);
+	return markdownContext.flavor.html ? trimTrailingZeros(trimLeadingZeros(markdown)) : markdown;
+}
+
+/**
+ * Function will return the mdast node for a block other than a code block from the block hooks of the plugins.
+ */
+function getBlockNode(
+	block: Block,
+	children: PhrasingContent[],
+	hookContext: BlockHookContext,
+	plugins: Plugin[],
+): BlockContent | ListItem | null {
+	for (const plugin of plugins) {
+		const node = plugin.block?.(block, children, hookContext);
+		if (node !== undefined) return node;
 	}
-	const blockMarkdown: string[] = [];
-	const entitySections = getSections(block, hashConfig);
-	entitySections.forEach((section, index) => {
-		let sectionText = getSectionMarkdown(
-			block,
-			entityMap,
-			section,
-			customEntityTransform,
-			config,
-		);
-		if (index === 0) {
-			// First element
-			sectionText = trimLeadingZeros(sectionText);
-		} else if (index === entitySections.length - 1) {
-			// Last element
-			sectionText = trimTrailingZeros(sectionText);
-		}
-		blockMarkdown.push(sectionText);
-	});
-	return blockMarkdown.join('');
+	return {type: 'paragraph', children, position: hookContext.position, data: {blockType: block.type}};
 }
 
 /**
- * Function will return style string for a block.
+ * Function returns the language of a code block from its block data.
  */
-export function getBlockStyle(data: Record<string, string>): string {
-	let styles = '';
-	forEach(data, (key, value) => {
-		styles += `${key}:${value};`;
-	});
-	return styles;
+function getCodeBlockLanguage(block: Block): string {
+	const language = block.data?.language ?? block.data?.syntax;
+	return typeof language === 'string' ? language.trim() : '';
 }
 
 /**
- * FUnciton will add <span> with style property aroung block content for block level text-styling.
+ * Function returns the start number of an ordered list from block data.
  */
-function getBlockStyleProperty(blockData: Record<string, string>, content: string): string {
-	const blockStyle = getBlockStyle(blockData);
-	if (blockStyle) {
-		return `<span style="${blockStyle}">${content}</span>`;
+function getListStart(block: Block): number | undefined {
+	const start = Number(block.data?.start);
+	return block.data?.start !== undefined && block.data?.start !== null && Number.isInteger(start) && start >= 0
+		? start
+		: undefined;
+}
+
+/**
+ * Function keeps the attributes mapped from the data of a block on its node.
+ */
+function addBlockAttributes<T extends BlockContent | ListItem>(node: T, block: Block, config: Config): T {
+	const attributes = getBlockAttributes(block, config);
+	if (attributes) {
+		node.data = {...node.data, attributes};
 	}
-	return content;
+	return node;
 }
 
 /**
- * Function will return markdown for the block.
+ * Function extends the position of a node up to the end of a position.
  */
-function getBlockMarkdown(
-	block: Block,
-	blockTypesMapping: BlockTypesMapping,
-	entityMap: EntityMap,
-	hashConfig: HashConfig,
-	customEntityTransform: CustomEntityTransform,
-	config: Config,
-): string {
-	const blockMarkdown: string[] = [];
-	if (Object.hasOwn(blockTypesMapping, block.type)) blockMarkdown.push(blockTypesMapping[block.type]);
-	const blockContentMarkdown = getBlockContentMarkdown(
-		block,
-		entityMap,
-		hashConfig,
-		customEntityTransform,
-		config,
-	);
+function extendPosition(node: BlockContent | ListItem, position: Position): void {
+	node.position = {start: node.position?.start ?? position.start, end: position.end};
+}
 
-	// Non-standard
-	/*if (block.data) {
-		blockContentMarkdown = getBlockStyleProperty(
-			block.data as unknown as Record<string, string>,
-			blockContentMarkdown,
-		);
-	}*/
+/**
+ * Function adds a list item to the tree, nesting it by the depth of its block.
+ * An item continues the open list at its depth if it's of the same type, otherwise a new list starts.
+ * Levels missing above the item get a list with one item holding only the deeper list.
+ */
+function addListItem(root: Root, listStack: ListStack, block: Block, item: ListItem): void {
+	const depth = Math.max(0, block.depth || 0);
+	const ordered = block.type === 'ordered-list-item';
+	listStack.length = Math.min(listStack.length, depth + 1);
+	const getParent = (level: number): BlockContent[] => {
+		if (level === 0) return root.children;
+		const {children} = listStack[level - 1].list;
+		return children[children.length - 1].children;
+	};
+	for (let level = 0; level < depth; level += 1) {
+		if (!listStack[level]) {
+			const list: List = {type: 'list', ordered, spread: false, children: [{type: 'listItem', spread: false, children: []}]};
+			getParent(level).push(list);
+			listStack[level] = {list};
+		}
+	}
+	const open = listStack[depth];
+	if (open?.type === block.type) {
+		open.list.children.push(item);
+	} else {
+		const list: List = {type: 'list', ordered, start: ordered ? getListStart(block) ?? 1 : null, spread: false, children: [item]};
+		getParent(depth).push(list);
+		listStack[depth] = {list, type: block.type};
+	}
+	if (item.position) {
+		for (let level = 0; level <= depth; level += 1) {
+			const {list} = listStack[level];
+			extendPosition(list, item.position);
+			extendPosition(list.children[list.children.length - 1], item.position);
+		}
+	}
+}
 
-	blockMarkdown.push(blockContentMarkdown);
-	blockMarkdown.push(
-		config && config?.emptyLineBeforeBlock
-			? `${config?.printBreakLineLiteral ? `\\n\n\n` : `\n\n`}`
-			: `${config?.printBreakLineLiteral ? `\\n` : `\n`}`,
-	);
-	return blockMarkdown.join('');
+/**
+ * Function extends the positions of the open lists up to a level, and of their last items.
+ */
+function extendListPositions(listStack: ListStack, level: number, position: Position | undefined): void {
+	if (!position) return;
+	for (let i = 0; i < level; i += 1) {
+		const {list} = listStack[i];
+		extendPosition(list, position);
+		extendPosition(list.children[list.children.length - 1], position);
+	}
 }
 
-function getDepthPadding(depth: number): string {
-	/*let padding = '';
-	for (let i = 0; i < depth * 4; i += 1) {
-		padding += ' ';
+/**
+ * Function adds a blockquote to the tree, returning the quote a following one can join.
+ * A quote right after a quote of the same type and level joins it as another paragraph,
+ * and a quote deeper than 0 goes in the last list item at the level above it.
+ */
+function addBlockquote(root: Root, listStack: ListStack, block: Block, node: Blockquote, previous?: OpenQuote): OpenQuote {
+	const depth = Math.max(0, block.depth || 0);
+	const level = depth > 0 && listStack.length >= depth ? depth : 0;
+	if (
+		previous?.level === level && previous.node.data?.blockType === node.data?.blockType
+		&& !previous.node.data?.attributes && !node.data?.attributes
+	) {
+		previous.node.children.push(...node.children);
+		if (node.position) extendPosition(previous.node, node.position);
+		extendListPositions(listStack, level, node.position);
+		return previous;
+	}
+	listStack.length = level;
+	if (level === 0) {
+		root.children.push(node);
+	} else {
+		const {children} = listStack[level - 1].list;
+		children[children.length - 1].children.push(node);
+		extendListPositions(listStack, level, node.position);
+	}
+	return {node, level};
+}
+
+/**
+ * Function returns the markdown output of trees.
+ */
+function getMarkdownOutput(markdownContext: MarkdownContext): Output {
+	const getText = (nodes: PhrasingContent[]): string => getPhrasingMarkdown(nodes, '[', ']', markdownContext);
+	return {
+		target: 'markdown',
+		getText,
+		getDetectionText: (detection, nodes) => getDetectionMarkdown(detection, getText(nodes)),
+	};
+}
+
+/**
+ * Function builds the mdast tree of editorContent for an output.
+ */
+function buildMdast(editorContent: EditorContent, config: Config, output: Output): Root {
+	const offsetUnit = config?.offsetUnit ?? 'code-point';
+	const {content, issues} = repairEditorContent(editorContent, offsetUnit);
+	if (issues.length > 0) {
+		if (config?.strict) {
+			throw new EditorContentError(issues);
+		}
+		config?.onValidationIssues?.(issues);
 	}
-	return padding;*/
-	return ' '.repeat(depth * 4);
+	const blocks = offsetUnit === 'utf-16'
+		? content.blocks
+		: content.blocks.map(block => convertBlockOffsets(block, 'utf-16'));
+	const {entityMap} = content;
+	const detectors = config?.detectors ?? [getLegacyHashtagDetector({trigger: '#', separator: ' '})];
+	const markdownContext = getMarkdownContext(config);
+	const plugins = getPlugins(config);
+	const pluginStyles = getPluginStyles(plugins);
+	const whitespaceStyles = getWhitespaceStyles(plugins);
+	const root: Root = {type: 'root', children: []};
+	const listStack: ListStack = [];
+	const footnotes: FootnoteDefinition[] = [];
+	let openQuote: OpenQuote | undefined;
+	blocks.forEach((block, index) => {
+		const previousQuote = openQuote;
+		openQuote = undefined;
+		const context: InlineContext = {
+			block,
+			line: index + 1,
+			entityMap,
+			plugins,
+			pluginStyles,
+			whitespaceStyles,
+			escapedText: getEscapedText(block, entityMap, config, markdownContext.flavor),
+			offsetUnit,
+			markdownContext,
+			output,
+			footnotes,
+		};
+		const position = getPosition(context, 0, block.text.length);
+		if (isCodeBlock(block)) {
+			// Any other block ends the list, so numbering restarts after it
+			listStack.length = 0;
+			const language = getCodeBlockLanguage(block);
+			const previous = root.children[root.children.length - 1];
+			if (index > 0 && isCodeBlock(blocks[index - 1]) && previous?.type === 'code' && (previous.lang ?? '') === language) {
+				// Consecutive code blocks of the same language are merged into one fenced code block
+				previous.value += `\n${block.text}`;
+				previous.data = {...previous.data, positions: [...(previous.data?.positions ?? [previous.position as Position]), position]};
+				extendPosition(previous, position);
+			} else {
+				root.children.push(addBlockAttributes({
+					type: 'code',
+					lang: language || null,
+					value: block.text,
+					position,
+					data: {blockType: block.type},
+				}, block, config));
+			}
+			return;
+		}
+		const children = getBlockContentNodes(block, detectors, context);
+		const node = getBlockNode(block, children, {
+			index,
+			blocks,
+			previous: blocks[index - 1],
+			next: blocks[index + 1],
+			depth: Math.max(0, block.depth || 0),
+			position,
+			entityMap,
+			target: output.target,
+			flavor: markdownContext.flavor,
+			config,
+		}, plugins);
+		if (node === null) return;
+		if (node.type === 'listItem') {
+			addListItem(root, listStack, block, addBlockAttributes(node, block, config));
+			return;
+		}
+		if (node.type === 'blockquote') {
+			openQuote = addBlockquote(root, listStack, block, addBlockAttributes(node, block, config), previousQuote);
+			return;
+		}
+		listStack.length = 0;
+		root.children.push(addBlockAttributes(node, block, config));
+	});
+	root.children.push(...footnotes);
+	plugins.forEach(plugin => plugin.transformTree?.(root, {target: output.target, flavor: markdownContext.flavor, config}));
+	addHeadingAnchors(root, config);
+	return root;
+}
+
+/**
+ * The function will generate an mdast tree for given draftjs editorContent.
+ * The position of each node points back to the block and the text offsets it was made from.
+ * Inline styles without an mdast node, like UNDERLINE, are written as html nodes around their content.
+ */
+export function draftToMdast(editorContent: EditorContent, config: Config = {}): Root {
+	const tree = buildMdast(editorContent, config, getMarkdownOutput(getMarkdownContext(config)));
+	return getStandardMdast(tree, getHtmlContext(config));
+}
+
+/**
+ * The function will generate html for given draftjs editorContent.
+ * Entity transforms and detector templates are given the html of their text.
+ */
+export function draftToHtml(editorContent: EditorContent, config: Config = {}): string {
+	const htmlContext = getHtmlContext(config);
+	const getText = (nodes: PhrasingContent[]): string => getPhrasingHtml(nodes, htmlContext);
+	const tree = buildMdast(editorContent, config, {
+		target: 'html',
+		getText,
+		getDetectionText: (detection, nodes) => getDetectionHtml(detection, getText(nodes)),
+	});
+	return postProcessOutput(mdastToHtml(tree, config), getPlugins(config), {target: 'html', config});
+}
+
+/**
+ * The function will generate plain text for given draftjs editorContent, as for search indexes or notifications.
+ * Inline styles are dropped, entities and detections are written as their text.
+ */
+export function draftToPlainText(editorContent: EditorContent, config: Config = {}, options: PlainTextOptions = {}): string {
+	const getText = (nodes: PhrasingContent[]): string => getPhrasingText(nodes, options);
+	const tree = buildMdast(editorContent, config, {
+		target: 'text',
+		getText,
+		getDetectionText: (_detection, nodes) => getText(nodes),
+	});
+	return postProcessOutput(mdastToPlainText(tree, options), getPlugins(config), {target: 'text', config});
 }
 
 /**
  * The function will generate markdown for given draftjs editorContent.
+ * The markdown is written from the mdast tree of the content, after the front matter of the content.
  */
 function draftToMarkdown(
 	editorContent: EditorContent,
 	hashConfig: Partial<HashConfig>,
-	customEntityTransform: CustomEntityTransform,
-	config: Config,
+	customEntityTransform?: CustomEntityTransform,
+	config: Config = {},
 ): string {
-	const fullHashConfig: HashConfig = {
-		trigger: hashConfig.trigger ?? '#',
-		separator: hashConfig.separator ?? ' ',
+	const detectors = config?.detectors ?? [getLegacyHashtagDetector({
+		trigger: hashConfig?.trigger ?? '#',
+		separator: hashConfig?.separator ?? ' ',
+	})];
+	const frontMatter = config?.frontMatter;
+	const titleBlock = frontMatter?.titleFromHeading ? getTitleBlock(editorContent) : undefined;
+	const treeConfig: Config = {
+		...config,
+		detectors,
+		customEntityTransform: customEntityTransform ?? config?.customEntityTransform,
+		plugins: titleBlock ? [getTitlePlugin(titleBlock), ...(config?.plugins ?? [])] : config?.plugins,
+	};
+	// The inlineStyle nodes are kept, for each flavor to write its own delimiters
+	const tree = buildMdast(editorContent, treeConfig, getMarkdownOutput(getMarkdownContext(treeConfig)));
+	const frontMatterMarkdown = frontMatter ? getFrontMatter(editorContent, frontMatter) : '';
+	let markdown: string;
+	if (typeof config?.onSourceMap === 'function') {
+		const written = mdastToMarkdownWithSourceMap(tree, config, frontMatterMarkdown.length);
+		config.onSourceMap(written.sourceMap);
+		markdown = written.markdown;
+	} else {
+		markdown = mdastToMarkdown(tree, config);
 	}
-	const markdown: string[] = [];
-	if (editorContent) {
-		// @ts-ignore: This doesn't work for some reeason
-		const blockTypesMapping: BlockTypesMapping = {
-			...defaultBlockTypesMapping as BlockTypesMapping,
-			...(config?.blockTypesMapping ?? {}) as Partial<BlockTypesMapping>,
-		};
-		const {blocks, entityMap} = editorContent;
-		if (blocks && blocks.length > 0) {
-			blocks.forEach(block => {
-				let content = getBlockMarkdown(
-					block,
-					blockTypesMapping,
-					entityMap,
-					fullHashConfig,
-					customEntityTransform,
-					config,
-				);
-				if (isList(block.type)) {
-					content = getDepthPadding(block.depth) + content;
-				}
-				markdown.push(content);
-			});
+	return frontMatterMarkdown + postProcessOutput(markdown, getPlugins(treeConfig), {target: 'markdown', config});
+}
+export default draftToMarkdown;
+
+/**
+ * Markdown of the content, and the manifest of the assets rewritten in it.
+ */
+export interface AsyncMarkdown {
+	markdown: string;
+	assets: AssetManifestEntry[];
+}
+
+/**
+ * The function will generate markdown for given draftjs editorContent, after resolving its assets.
+ * The assetResolver is called once for each unique src of the IMAGE and EMBEDDED_LINK entities,
+ * and the urls it returns are written instead.
+ */
+export async function draftToMarkdownAsync(
+	editorContent: EditorContent,
+	config: Config = {},
+	options: AssetOptions = {},
+): Promise<AsyncMarkdown> {
+	const {content, assets} = await resolveAssets(editorContent, options);
+	const markdown = draftToMarkdown(content, {}, config?.customEntityTransform, config);
+	return {markdown, assets};
+}
+
+/**
+ * The function will generate the markdown of an excerpt of draftjs editorContent, within a number of characters
+ * or blocks. The content is cut before it's written, so every style and entity of the excerpt is closed.
+ * The front matter isn't written.
+ */
+export function draftToMarkdownExcerpt(
+	editorContent: EditorContent,
+	config: Config = {},
+	options: ExcerptOptions = {},
+): MarkdownExcerpt {
+	const offsetUnit = config?.offsetUnit ?? 'code-point';
+	const {content, issues} = repairEditorContent(editorContent, offsetUnit);
+	if (issues.length > 0) {
+		if (config?.strict) {
+			throw new EditorContentError(issues);
 		}
+		config?.onValidationIssues?.(issues);
 	}
-	return markdown.join('');
+	const excerpt = getExcerptContent(content, offsetUnit, options);
+	const markdown = draftToMarkdown(excerpt.content, {}, config?.customEntityTransform, {
+		...config,
+		frontMatter: undefined,
+	});
+	return {markdown, truncated: excerpt.truncated};
+}
+
+/**
+ * The function will generate markdown for the changes between two revisions of draftjs editorContent,
+ * marked with CriticMarkup or html ins and del tags as set by the markup option.
+ * Blocks are matched by key, or by the similarity of their text, and the characters of modified blocks
+ * are compared with their inline styles and entities. Detectors aren't run, as the text written mixes both revisions.
+ */
+export function diffDraftToMarkdown(oldContent: EditorContent, newContent: EditorContent, options: DiffOptions = {}): string {
+	const config = options.config ?? {};
+	const {content, plugin, styleTransform} = getDiffContent(oldContent, newContent, options);
+	return draftToMarkdown(content, {}, config.customEntityTransform, {
+		...config,
+		plugins: [plugin, ...(config.plugins ?? [])],
+		customStyleTransform: {...config.customStyleTransform, ...styleTransform},
+		detectors: [],
+		offsetUnit: 'utf-16',
+		// Offsets in the merged blocks point to neither revision
+		onSourceMap: undefined,
+	});
 }
-export default draftToMarkdown;
@@ -0,0 +1,704 @@
+import type {
+	Block,
+	BlockTypesMapping,
+	Config,
+	EditorContent,
+	Entity,
+	EntityMap,
+	EntityRange,
+	InlineStyleRange,
+	StyleTransform,
+} from './index.ts';
+import {convertBlockOffsets, generateBlockKey, getBlockSeparator, isList} from './common.ts';
+import {defaultBlockTypesMapping, defaultHtmlStyleTransform, defaultStyleTransform} from './defaults.ts';
+
+interface Delimiter {
+	style: string;
+	left: string;
+	right: string;
+}
+
+interface InlineContext {
+	delimiters: Delimiter[];
+	entityMap: EntityMap;
+	nextEntityKey: number;
+	/** Destinations of the reference definitions, by normalized label */
+	definitions: Map<string, LinkDestination>;
+}
+
+/**
+ * The url of a link or image and its optional title.
+ */
+interface LinkDestination {
+	url: string;
+	title?: string;
+}
+
+interface OpenToken {
+	kind: 'open';
+	literal: string;
+	closed: boolean;
+	style?: string;
+	entityKey?: number;
+	delimiter?: Delimiter;
+}
+
+type InlineToken =
+	| {kind: 'text'; value: string}
+	| OpenToken
+	| {kind: 'close'; open: OpenToken};
+
+interface BlockPrefix {
+	type: string;
+	indent: number;
+	marker: string;
+	content: string;
+}
+
+interface ListItem {
+	type: string;
+	indent: number;
+	column: number;
+}
+
+interface ParsedInline {
+	text: string;
+	inlineStyleRanges: InlineStyleRange[];
+	entityRanges: EntityRange[];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+	'&amp;': '&',
+	'&lt;': '<',
+	'&gt;': '>',
+	'&quot;': '"',
+	'&nbsp;': ' ',
+};
+
+/**
+ * A hard line break in any of the styles draftToMarkdown writes, or the \s\s of older versions.
+ * A <br> tag doesn't need a newline after it, breaks in headings are written that way.
+ */
+const HARD_BREAK = /(?:\\s\\s| {2}|\\|<br\s*\/?>)?\n|<br\s*\/?>/y;
+
+/**
+ * A hard break ending a line, whose newline isn't a block separator.
+ * Only an odd number of backslashes ends in an unescaped one, and the <br /> of headings isn't followed by a newline.
+ */
+const LINE_BREAK = /(?:\\s\\s| {2,}|(?<!\\)(?:\\\\)*\\|<br>)\n/g;
+
+/**
+ * Character standing in for the newlines of hard breaks while the markdown is split into blocks.
+ */
+const BREAK_PLACEHOLDER = '\u0000';
+
+/**
+ * ASCII punctuation, which can be escaped with a backslash.
+ */
+const ESCAPABLE = '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~';
+
+/**
+ * Markers of list items in CommonMark, read along with the prefixes of the blockTypesMapping.
+ */
+const LIST_MARKERS: Record<string, RegExp> = {
+	'unordered-list-item': /^[-*+] /,
+	'ordered-list-item': /^\d{1,9}[.)] /,
+};
+
+/**
+ * A link destination, in angle brackets or without spaces, followed by an optional title in quotes or parentheses.
+ */
+const DESTINATION = /^\s*(?:<((?:[^<>\n\\]|\\.)*)>|((?:[^\s\\]|\\.)+))(?:\s+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?\s*$/s;
+
+/**
+ * The reference definitions at the end of a document, after a blank line, as draftToMarkdown writes them.
+ */
+const DEFINITIONS = /\n((?:\[(?:[^\]\\\n]|\\.)+\]:[^\n]*(?:\n|$))+)$/;
+
+const DEFINITION = /^\[((?:[^\]\\\n]|\\.)+)\]:(.*)$/;
+
+/**
+ * Inverse of the style markup in addStylePropertyMarkdown, keyed by CSS property.
+ */
+const STYLE_PROPERTY_PREFIXES: Record<string, [string, string]> = {
+	color: ['color-', 'data-color'],
+	'background-color': ['bgcolor-', 'data-bgcolor'],
+	'font-size': ['fontsize-', 'data-fontsize'],
+	'font-family': ['fontfamily-', 'data-fontfamily'],
+};
+
+/**
+ * Function returns the delimiters which can be matched back to an inline style,
+ * both the markdown ones and the html ones used when markdown can't be.
+ * Delimiters that are empty or span lines can't be told apart from plain text and are skipped.
+ */
+function getDelimiters(...styleTransforms: StyleTransform[]): Delimiter[] {
+	const delimiters: Delimiter[] = [];
+	styleTransforms.flatMap(styleTransform => Object.entries(styleTransform)).forEach(([style, value]) => {
+		if (value === null || typeof value === 'undefined') return;
+		const [left, right] = typeof value === 'string' ? [value, value] : value;
+		if (!left || !right || left.includes('\n') || right.includes('\n')) return;
+		delimiters.push({style, left, right});
+	});
+	return delimiters.sort((d1, d2) => d2.left.length - d1.left.length);
+}
+
+/**
+ * Function returns the index of the bracket closing the one at start, or -1.
+ * Brackets escaped with a backslash are skipped.
+ */
+function findClosingBracket(src: string, start: number, open: string, close: string): number {
+	let depth = 0;
+	for (let i = start; i < src.length; i += 1) {
+		if (src[i] === '\\') {
+			i += 1;
+		} else if (src[i] === open) {
+			depth += 1;
+		} else if (src[i] === close) {
+			depth -= 1;
+			if (depth === 0) return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Function returns the value of an attribute in an html tag string.
+ */
+function getAttribute(tag: string, name: string): string | undefined {
+	const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+	return match ? match[1].replace(/&(?:amp|lt|gt|quot|nbsp);/g, entity => HTML_ENTITIES[entity]) : undefined;
+}
+
+/**
+ * Function converts the style attribute written by addStylePropertyMarkdown back to inline style names.
+ */
+function getSpanStyles(tag: string): string[] {
+	const styles: string[] = [];
+	const rawCss: Record<string, string> = {};
+	const declarations = (getAttribute(tag, 'style') ?? '').split(';').filter(d => d.trim());
+	declarations.forEach(declaration => {
+		const separator = declaration.indexOf(':');
+		const property = declaration.substring(0, separator).trim();
+		const value = declaration.substring(separator + 1).trim();
+		const known = STYLE_PROPERTY_PREFIXES[property];
+		if (known && getAttribute(tag, known[1]) === 'true' && !styles.some(s => s.startsWith(known[0]))) {
+			styles.push(`${known[0]}${property === 'font-size' ? value.replace(/px$/, '') : value}`);
+		} else {
+			rawCss[property.replace(/-([a-z])/g, (_match, ch: string) => ch.toUpperCase())] = value;
+		}
+	});
+	if (Object.keys(rawCss).length > 0) {
+		styles.push(JSON.stringify(rawCss));
+	}
+	return styles;
+}
+
+/**
+ * Function returns a text with its backslash escapes of punctuation replaced by the punctuation.
+ */
+function unescapeMarkdown(text: string): string {
+	return text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
+/**
+ * Function returns a label as it's matched, labels are case-insensitive and their whitespace is collapsed.
+ */
+function normalizeLabel(label: string): string {
+	return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Function parses the destination and the optional title of a link, as written between its parentheses
+ * or after the label of its definition. Text that isn't a valid destination is taken as the url.
+ */
+function parseDestination(src: string): LinkDestination {
+	const match = DESTINATION.exec(src);
+	if (!match) return {url: src};
+	const url = unescapeMarkdown(match[1] ?? match[2]);
+	return match[3] === undefined ? {url} : {url, title: unescapeMarkdown(match[3].slice(1, -1))};
+}
+
+/**
+ * Function returns the markdown without the reference definitions at its end, and the destinations of the definitions.
+ * The blank line written before the definitions is removed along with them, unless blocks are separated by one.
+ */
+function extractDefinitions(markdown: string, config: Config): {markdown: string; definitions: Map<string, LinkDestination>} {
+	const definitions = new Map<string, LinkDestination>();
+	const match = DEFINITIONS.exec(markdown);
+	if (!match) return {markdown, definitions};
+	match[1].split('\n').forEach(line => {
+		const definition = DEFINITION.exec(line);
+		if (definition && !definitions.has(normalizeLabel(definition[1]))) {
+			definitions.set(normalizeLabel(definition[1]), parseDestination(definition[2]));
+		}
+	});
+	const rest = markdown.substring(0, match.index + 1);
+	return {
+		markdown: rest.endsWith('\n\n') && !config?.emptyLineBeforeBlock ? rest.substring(0, rest.length - 1) : rest,
+		definitions,
+	};
+}
+
+/**
+ * Function returns the destination of a link or image whose text is in brackets from textStart to textEnd,
+ * written inline or as a full or collapsed reference, along with the index of its last character.
+ */
+function matchDestination(
+	src: string,
+	textStart: number,
+	textEnd: number,
+	context: InlineContext,
+): [LinkDestination, number] | undefined {
+	if (textEnd < 0) return undefined;
+	if (src[textEnd + 1] === '(') {
+		const end = findClosingBracket(src, textEnd + 1, '(', ')');
+		return end >= 0 ? [parseDestination(src.substring(textEnd + 2, end)), end] : undefined;
+	}
+	if (src[textEnd + 1] === '[') {
+		const end = findClosingBracket(src, textEnd + 1, '[', ']');
+		// Collapsed references are labelled with the text of the link
+		const label = end >= 0 ? src.substring(textEnd + 2, end) || src.substring(textStart + 1, textEnd) : '';
+		const destination = context.definitions.get(normalizeLabel(label));
+		return destination ? [destination, end] : undefined;
+	}
+	return undefined;
+}
+
+/**
+ * Function adds a new entity to the entity map and returns its key.
+ */
+function addEntity(context: InlineContext, entity: Entity): number {
+	const key = context.nextEntityKey;
+	context.entityMap[key] = entity;
+	context.nextEntityKey += 1;
+	return key;
+}
+
+/**
+ * The function returns an IMAGE or EMBEDDED_LINK entity if the markdown at start is one of them,
+ * along with the number of characters it spans.
+ */
+function matchMediaEntity(src: string, start: number, context: InlineContext): [Entity, number] | undefined {
+	if (src.startsWith('![', start)) {
+		const altEnd = findClosingBracket(src, start + 1, '[', ']');
+		const destination = matchDestination(src, start + 1, altEnd, context);
+		if (destination) {
+			const [{url, title}, end] = destination;
+			const alt = src.substring(start + 2, altEnd);
+			return [{
+				type: 'IMAGE',
+				mutability: 'MUTABLE',
+				data: {src: url, ...(alt ? {alt} : {}), ...(title === undefined ? {} : {title})},
+			}, end + 1 - start];
+		}
+	} else if (src.startsWith('<iframe ', start)) {
+		const end = src.indexOf('/>', start);
+		if (end >= 0) {
+			const tag = src.substring(start, end + 2);
+			return [{
+				type: 'EMBEDDED_LINK',
+				mutability: 'MUTABLE',
+				data: {
+					src: getAttribute(tag, 'src'),
+					width: getAttribute(tag, 'width'),
+					height: getAttribute(tag, 'height'),
+				},
+			}, tag.length];
+		}
+	}
+	return undefined;
+}
+
+/**
+ * The function returns the code of a backtick code span starting at start,
+ * along with the number of characters it spans and whether it's closed.
+ * An unclosed backtick run is returned as plain text so it isn't read as a shorter fence.
+ */
+function matchCodeSpan(src: string, start: number, context: InlineContext): [string, number, boolean] | undefined {
+	const code = context.delimiters.find(d => d.style === 'CODE' && /^`+$/.test(d.left) && d.left === d.right);
+	if (!code || src[start] !== '`') {
+		return undefined;
+	}
+	const fence = /^`+/.exec(src.substring(start))?.[0] as string;
+	const closing = new RegExp(`(?<!\`)${fence}(?!\`)`, 'g');
+	closing.lastIndex = start + fence.length;
+	const match = closing.exec(src);
+	if (!match) {
+		return [fence, fence.length, false];
+	}
+	let content = src.substring(start + fence.length, match.index);
+	if (content.startsWith(' ') && content.endsWith(' ') && content.trim().length > 0) {
+		content = content.substring(1, content.length - 1);
+	}
+	return [content, match.index + fence.length - start, true];
+}
+
+/**
+ * Function tokenizes the markdown of a block (or of a link text) into text and range markers.
+ * Inline styles are matched against the delimiters from the style transform,
+ * preferring the longest delimiter so that `**` wins over `*`.
+ */
+function tokenizeInline(src: string, context: InlineContext, tokens: InlineToken[]): void {
+	const stack: OpenToken[] = [];
+	const open = (literal: string, range: {style?: string; entityKey?: number; delimiter?: Delimiter}): OpenToken => {
+		const token: OpenToken = {kind: 'open', literal, closed: false, ...range};
+		tokens.push(token);
+		return token;
+	};
+	const close = (token: OpenToken): void => {
+		token.closed = true;
+		tokens.push({kind: 'close', open: token});
+	};
+
+	let i = 0;
+	while (i < src.length) {
+		HARD_BREAK.lastIndex = i;
+		const hardBreak = HARD_BREAK.exec(src);
+		if (hardBreak) {
+			tokens.push({kind: 'text', value: '\n'});
+			i += hardBreak[0].length;
+			continue;
+		}
+		const htmlEntity = Object.keys(HTML_ENTITIES).find(e => src.startsWith(e, i));
+		if (htmlEntity) {
+			tokens.push({kind: 'text', value: HTML_ENTITIES[htmlEntity]});
+			i += htmlEntity.length;
+			continue;
+		}
+
+		const codeSpan = matchCodeSpan(src, i, context);
+		if (codeSpan) {
+			if (codeSpan[2]) {
+				const token = open('', {style: 'CODE'});
+				tokens.push({kind: 'text', value: codeSpan[0]});
+				close(token);
+			} else {
+				tokens.push({kind: 'text', value: codeSpan[0]});
+			}
+			i += codeSpan[1];
+			continue;
+		}
+
+		const top = stack[stack.length - 1];
+		const topDelimiter = top?.delimiter;
+		// Code spans are verbatim, only their closing delimiter is looked for
+		if (top?.style === 'CODE' && topDelimiter && !src.startsWith(topDelimiter.right, i)) {
+			tokens.push({kind: 'text', value: src[i]});
+			i += 1;
+			continue;
+		}
+
+		if (src[i] === '\\' && i + 1 < src.length && ESCAPABLE.includes(src[i + 1])) {
+			tokens.push({kind: 'text', value: src[i + 1]});
+			i += 2;
+			continue;
+		}
+
+		const closer = topDelimiter && src.startsWith(topDelimiter.right, i) ? topDelimiter : undefined;
+		const opener = context.delimiters.find(d => src.startsWith(d.left, i) && !stack.some(t => t.style === d.style));
+		if (closer && (!opener || closer.right.length >= opener.left.length)) {
+			close(stack.pop() as OpenToken);
+			i += closer.right.length;
+			continue;
+		}
+		if (opener) {
+			stack.push(open(opener.left, {style: opener.style, delimiter: opener}));
+			i += opener.left.length;
+			continue;
+		}
+
+		if (src.startsWith('<span ', i) && src.indexOf('>', i) >= 0) {
+			const tag = src.substring(i, src.indexOf('>', i) + 1);
+			const spanTokens = getSpanStyles(tag).map(style => open('', {style}));
+			// The whole span is kept as one frame, the literal is restored if it's never closed
+			spanTokens[0] = spanTokens[0] ?? open('', {});
+			spanTokens[0].literal = tag;
+			stack.push(...spanTokens);
+			i += tag.length;
+			continue;
+		}
+		if (src.startsWith('</span>', i) && stack.some(t => t.literal.startsWith('<span '))) {
+			let token: OpenToken | undefined;
+			do {
+				token = stack.pop() as OpenToken;
+				close(token);
+			} while (!token.literal.startsWith('<span '));
+			i += '</span>'.length;
+			continue;
+		}
+
+		const media = matchMediaEntity(src, i, context);
+		if (media) {
+			const token = open('', {entityKey: addEntity(context, media[0])});
+			tokens.push({kind: 'text', value: ' '});
+			close(token);
+			i += media[1];
+			continue;
+		}
+		if (src[i] === '[') {
+			const textEnd = findClosingBracket(src, i, '[', ']');
+			const destination = matchDestination(src, i, textEnd, context);
+			if (destination) {
+				const [{url, title}, end] = destination;
+				const text = src.substring(i + 1, textEnd);
+				if (text === url && url.startsWith('#')) {
+					// Hashtags are written as links to themselves but aren't entities
+					tokens.push({kind: 'text', value: text});
+				} else {
+					const token = open('', {
+						entityKey: addEntity(context, {
+							type: 'LINK',
+							mutability: 'MUTABLE',
+							data: title === undefined ? {url} : {url, title},
+						}),
+					});
+					tokenizeInline(text, context, tokens);
+					close(token);
+				}
+				i = end + 1;
+				continue;
+			}
+		}
+
+		tokens.push({kind: 'text', value: src[i]});
+		i += 1;
+	}
+}
+
+/**
+ * Function merges inline style ranges of the same style which touch or overlap.
+ */
+function mergeStyleRanges(ranges: InlineStyleRange[]): InlineStyleRange[] {
+	const merged: InlineStyleRange[] = [];
+	ranges
+		.sort((r1, r2) => (r1.style < r2.style ? -1 : r1.style > r2.style ? 1 : r1.offset - r2.offset))
+		.forEach(range => {
+			const last = merged[merged.length - 1];
+			if (last && last.style === range.style && last.offset + last.length >= range.offset) {
+				last.length = Math.max(last.length, range.offset + range.length - last.offset);
+			} else {
+				merged.push({...range});
+			}
+		});
+	return merged.sort((r1, r2) => r1.offset - r2.offset);
+}
+
+/**
+ * The function parses the inline markdown of a block into its text and ranges.
+ * Delimiters that are never closed are put back as plain text.
+ */
+function parseInline(src: string, context: InlineContext): ParsedInline {
+	const tokens: InlineToken[] = [];
+	tokenizeInline(src, context, tokens);
+
+	let text = '';
+	const starts = new Map<OpenToken, number>();
+	const inlineStyleRanges: InlineStyleRange[] = [];
+	const entityRanges: EntityRange[] = [];
+	tokens.forEach(token => {
+		if (token.kind === 'text') {
+			text += token.value;
+		} else if (token.kind === 'open') {
+			if (token.closed) {
+				starts.set(token, text.length);
+			} else {
+				text += token.literal;
+			}
+		} else {
+			const offset = starts.get(token.open) as number;
+			const length = text.length - offset;
+			if (token.open.entityKey !== undefined) {
+				entityRanges.push({offset, length, key: token.open.entityKey});
+			} else if (token.open.style !== undefined && length > 0) {
+				inlineStyleRanges.push({offset, length, style: token.open.style});
+			}
+		}
+	});
+	return {text, inlineStyleRanges: mergeStyleRanges(inlineStyleRanges), entityRanges};
+}
+
+/**
+ * Function returns the block type for a line of markdown, along with the indentation
+ * and the marker of list items, and the content following the block prefix.
+ */
+function getBlockPrefix(line: string, blockTypesMapping: BlockTypesMapping): BlockPrefix {
+	const prefixes = Object.entries(blockTypesMapping)
+		.filter(([, prefix]) => typeof prefix === 'string' && prefix.length > 0)
+		.sort(([, p1], [, p2]) => p2.length - p1.length);
+	const matchPrefix = (content: string, prefix: string): string | undefined => {
+		const numbered = /^\d+([.)]) $/.exec(prefix);
+		if (numbered) {
+			return new RegExp(`^\\d+\\${numbered[1]} `).exec(content)?.[0];
+		}
+		return content.startsWith(prefix) ? prefix : undefined;
+	};
+
+	// List items are nested by indenting them up to the content of their parent item
+	const indent = /^ */.exec(line)?.[0].length ?? 0;
+	for (const [type, prefix] of prefixes) {
+		if (!isList(type)) continue;
+		const marker = matchPrefix(line.substring(indent), prefix) ?? LIST_MARKERS[type]?.exec(line.substring(indent))?.[0];
+		if (marker !== undefined) {
+			return {type, indent, marker, content: line.substring(indent + marker.length)};
+		}
+	}
+	// Quotes in list items are indented like nested lists
+	const quote = blockTypesMapping.blockquote;
+	if (indent > 0 && quote && line.startsWith(quote, indent)) {
+		return {type: 'blockquote', indent, marker: quote, content: line.substring(indent + quote.length)};
+	}
+	for (const [type, prefix] of prefixes) {
+		const marker = matchPrefix(line, prefix);
+		if (marker !== undefined) {
+			return {type, indent: 0, marker, content: line.substring(marker.length)};
+		}
+	}
+	return {type: 'unstyled', indent: 0, marker: '', content: line};
+}
+
+/**
+ * Function removes the prefix continuing the container of a block from the lines following a hard break.
+ */
+function removeContinuation(content: string, prefix: string): string {
+	return content.split('\n').map((line, index) => {
+		if (index === 0) return line;
+		if (line.startsWith(prefix)) return line.substring(prefix.length);
+		const trimmed = prefix.trimEnd();
+		return line.startsWith(trimmed) ? line.substring(trimmed.length) : line;
+	}).join('\n');
+}
+
+/**
+ * Function returns the markdown of each block, following how draftToMarkdown separates them.
+ * The paragraphs of a quote, separated by a line of only the quote prefix, are blocks of their own.
+ */
+function splitBlocks(markdown: string, config: Config, quotePrefix: string): string[] {
+	const separator = getBlockSeparator(config);
+	// The newlines of hard breaks continue the block, they're kept out of the split
+	const blocks = markdown
+		.replace(LINE_BREAK, match => `${match.substring(0, match.length - 1)}${BREAK_PLACEHOLDER}`)
+		.split(separator)
+		.map(chunk => chunk.replaceAll(BREAK_PLACEHOLDER, '\n'));
+	if (blocks.length > 0 && blocks[blocks.length - 1] === '') {
+		blocks.pop();
+	}
+	const quoteLine = quotePrefix.trimEnd();
+	if (!quoteLine) return blocks;
+	return blocks.flatMap((block, index) => {
+		const quoted = block.trimStart();
+		if (quoted === quoteLine && blocks[index - 1]?.trimStart().startsWith(quoteLine)) return [];
+		if (!quoted.startsWith(quotePrefix)) return [block];
+		const indent = block.length - quoted.length;
+		return block.split(`\n${' '.repeat(indent)}${quoteLine}\n`);
+	});
+}
+
+/**
+ * The function will generate draftjs editorContent for given markdown.
+ * It reads the markdown the way draftToMarkdown writes it,
+ * so the same config gives back the blocks, styles and entities that were converted.
+ */
+export function markdownToDraft(markdown: string, config: Config = {}): EditorContent {
+	const blockTypesMapping = {
+		...defaultBlockTypesMapping,
+		...(config?.blockTypesMapping ?? {}),
+	} as BlockTypesMapping;
+	const context: InlineContext = {
+		delimiters: getDelimiters({
+			...defaultStyleTransform,
+			...(config?.customStyleTransform ?? {}),
+		} as StyleTransform, {
+			...defaultHtmlStyleTransform,
+			...(config?.htmlStyleTransform ?? {}),
+		} as StyleTransform),
+		entityMap: {},
+		nextEntityKey: 0,
+		definitions: new Map(),
+	};
+	const keys = new Set<string>();
+	const separator = getBlockSeparator(config);
+	const {markdown: source, definitions} = extractDefinitions(markdown ?? '', config);
+	context.definitions = definitions;
+	const chunks = splitBlocks(source, config, blockTypesMapping.blockquote ?? '');
+	const blocks: Block[] = [];
+	const listItems: ListItem[] = [];
+	for (let i = 0; i < chunks.length; i += 1) {
+		let line = chunks[i];
+		const fence = /^(`{3,}|~{3,})([^\n]*)/.exec(line);
+		if (fence) {
+			// A fenced code block may have been split into several chunks by the separator
+			const closingFence = new RegExp(`\n${fence[1][0]}{${fence[1].length},}$`);
+			while (!closingFence.test(line) && i + 1 < chunks.length) {
+				i += 1;
+				line = `${line}${separator}${chunks[i]}`;
+			}
+			const language = fence[2].trim();
+			const lines = line.replace(closingFence, '').split('\n').slice(1);
+			lines.forEach(text => blocks.push({
+				key: generateBlockKey(keys),
+				text,
+				type: 'code-block',
+				depth: 0,
+				inlineStyleRanges: [],
+				entityRanges: [],
+				data: language ? {language} : {},
+			}));
+			continue;
+		}
+
+		const key = generateBlockKey(keys);
+		const media = matchMediaEntity(line, 0, context);
+		if (media && media[1] === line.length) {
+			blocks.push({
+				key,
+				text: ' ',
+				type: 'atomic',
+				depth: 0,
+				inlineStyleRanges: [],
+				entityRanges: [{offset: 0, length: 1, key: addEntity(context, media[0])}],
+				data: {},
+			});
+			continue;
+		}
+		const {type, indent, marker, content: firstLine} = getBlockPrefix(line, blockTypesMapping);
+		if (type === 'code') {
+			// Indented code is a code-block block, its text is taken as it is
+			listItems.length = 0;
+			blocks.push({key, text: firstLine, type: 'code-block', depth: 0, inlineStyleRanges: [], entityRanges: [], data: {}});
+			continue;
+		}
+		// Lines after hard breaks are prefixed to continue the list item or quote
+		const content = isList(type)
+			? removeContinuation(firstLine, ' '.repeat(indent + marker.length))
+			: type === 'blockquote' ? removeContinuation(firstLine, ' '.repeat(indent) + marker) : firstLine;
+		const data: Record<string, unknown> = {};
+		let depth = 0;
+		if (isList(type)) {
+			depth = listItems.filter(item => item.column <= indent).length;
+			const previous = listItems[depth];
+			const number = parseInt(marker, 10);
+			if (type === 'ordered-list-item' && !(previous?.indent === indent && previous.type === type) && number !== 1 && !isNaN(number)) {
+				data.start = number;
+			}
+			listItems.length = depth;
+			listItems.push({type, indent, column: indent + marker.length});
+		} else if (type === 'blockquote' && indent > 0) {
+			depth = listItems.filter(item => item.column <= indent).length;
+			listItems.length = depth;
+		} else {
+			listItems.length = 0;
+		}
+		blocks.push({
+			key,
+			type,
+			depth,
+			...parseInline(content, context),
+			data,
+		});
+	}
+	return {
+		blocks: config?.offsetUnit === 'utf-16' ? blocks : blocks.map(block => convertBlockOffsets(block, 'code-point')),
+		entityMap: context.entityMap,
+	};
+}
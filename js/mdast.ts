@@ -0,0 +1,179 @@
+/**
+ * A position in the editor content: line is the 1-based index of the block,
+ * column the 1-based offset in its text, in the offset unit of the content.
+ */
+export interface Point {
+	line: number;
+	column: number;
+	blockKey: string;
+}
+
+export interface Position {
+	start: Point;
+	end: Point;
+}
+
+/**
+ * Attributes of a block, mapped from its block data.
+ */
+export interface BlockAttributes {
+	id?: string;
+	classes: string[];
+	/** Css properties, by their name in css case */
+	style: Record<string, string>;
+	attributes: Record<string, string>;
+}
+
+export interface NodeData {
+	/** Draft block type of a block node, used to pick its prefix from the blockTypesMapping */
+	blockType?: string;
+	/** Attributes of a block node from its block data, when blockDataRendering isn't none */
+	attributes?: BlockAttributes;
+	/** Escaped markdown of a text node, written instead of escaping its value again while it's still markdownValue */
+	markdown?: string;
+	/** Value of the text node the markdown was escaped from */
+	markdownValue?: string;
+	/** Positions of the blocks merged into a code node, in order */
+	positions?: Position[];
+	[x: string]: unknown;
+}
+
+interface Node {
+	type: string;
+	position?: Position;
+	data?: NodeData;
+}
+
+interface Parent<Child> extends Node {
+	children: Child[];
+}
+
+export interface Text extends Node {
+	type: 'text';
+	value: string;
+}
+
+export interface InlineCode extends Node {
+	type: 'inlineCode';
+	value: string;
+}
+
+export interface Html extends Node {
+	type: 'html';
+	value: string;
+}
+
+/**
+ * A hard line break, from a newline in the text of a block.
+ */
+export interface Break extends Node {
+	type: 'break';
+}
+
+export interface Emphasis extends Parent<PhrasingContent> {
+	type: 'emphasis';
+}
+
+export interface Strong extends Parent<PhrasingContent> {
+	type: 'strong';
+}
+
+export interface Delete extends Parent<PhrasingContent> {
+	type: 'delete';
+}
+
+/**
+ * Inline style without an mdast node of its own, like UNDERLINE or SUPERSCRIPT, used while writing.
+ * It isn't part of mdast, so draftToMdast replaces it by html nodes around its children.
+ */
+export interface InlineStyle extends Parent<PhrasingContent> {
+	type: 'inlineStyle';
+	style: string;
+}
+
+export interface Link extends Parent<PhrasingContent> {
+	type: 'link';
+	url: string;
+	title?: string | null;
+}
+
+export interface Image extends Node {
+	type: 'image';
+	url: string;
+	alt?: string | null;
+	title?: string | null;
+}
+
+/**
+ * Marker of a footnote, whose definition is at the end of the tree.
+ */
+export interface FootnoteReference extends Node {
+	type: 'footnoteReference';
+	identifier: string;
+	label?: string | null;
+}
+
+export type PhrasingContent =
+	| Text
+	| InlineCode
+	| Html
+	| Break
+	| Emphasis
+	| Strong
+	| Delete
+	| InlineStyle
+	| Link
+	| Image
+	| FootnoteReference;
+
+export interface Paragraph extends Parent<PhrasingContent> {
+	type: 'paragraph';
+}
+
+export interface Heading extends Parent<PhrasingContent> {
+	type: 'heading';
+	depth: 1 | 2 | 3 | 4 | 5 | 6;
+}
+
+export interface Blockquote extends Parent<BlockContent> {
+	type: 'blockquote';
+}
+
+export interface Code extends Node {
+	type: 'code';
+	lang?: string | null;
+	value: string;
+}
+
+/**
+ * A list item. An item without a leading paragraph only holds a list nested deeper than one level,
+ * and isn't written itself.
+ */
+export interface ListItem extends Parent<BlockContent> {
+	type: 'listItem';
+	spread?: boolean | null;
+}
+
+export interface List extends Parent<ListItem> {
+	type: 'list';
+	ordered?: boolean | null;
+	start?: number | null;
+	spread?: boolean | null;
+}
+
+/**
+ * Body of a footnote, from the FOOTNOTE entity referencing it.
+ */
+export interface FootnoteDefinition extends Parent<BlockContent> {
+	type: 'footnoteDefinition';
+	identifier: string;
+	label?: string | null;
+}
+
+export type BlockContent = Paragraph | Heading | Blockquote | Code | List | Html | FootnoteDefinition;
+
+export interface Root extends Parent<BlockContent> {
+	type: 'root';
+}
+
+export type MdastNode = Root | BlockContent | ListItem | PhrasingContent;
@@ -0,0 +1,190 @@
+import type {Config, StyleTransform} from './index.ts';
+import type {BlockContent, FootnoteDefinition, List, ListItem, MdastNode, PhrasingContent, Root} from './mdast.ts';
+import {defaultHtmlBlockTags, defaultHtmlStyleTransform} from './defaults.ts';
+import {getAttributesHtml} from './blockData.ts';
+import {escapeHtml} from './escape.ts';
+
+/**
+ * Mappings used while writing html, resolved once from the config.
+ */
+export interface HtmlContext {
+	config: Config;
+	styleTags: StyleTransform;
+	blockTags: Record<string, string>;
+}
+
+const HEADING_TYPES = ['header-one', 'header-two', 'header-three', 'header-four', 'header-five', 'header-six'];
+
+/**
+ * Function returns the html context for a config.
+ */
+export function getHtmlContext(config: Config): HtmlContext {
+	return {
+		config,
+		styleTags: {
+			...defaultHtmlStyleTransform,
+			SUPERSCRIPT: ['<sup>', '</sup>'],
+			SUBSCRIPT: ['<sub>', '</sub>'],
+			...(config?.htmlStyleTransform || {}),
+		} as StyleTransform,
+		blockTags: {
+			...defaultHtmlBlockTags,
+			...(config?.htmlBlockTags || {}),
+		},
+	};
+}
+
+/**
+ * Function returns the html tags of an inline style, or undefined for styles without tags.
+ */
+function getStyleTags(style: string, context: HtmlContext): [string, string] | undefined {
+	const value = context.styleTags[style];
+	if (value === undefined || value === null) return undefined;
+	return typeof value === 'string' ? [value, value] : value;
+}
+
+/**
+ * The function returns html for inline nodes.
+ * Newlines in text are written as line breaks.
+ */
+export function getPhrasingHtml(nodes: PhrasingContent[], context: HtmlContext): string {
+	return nodes.map(node => {
+		switch (node.type) {
+			case 'text':
+				return escapeHtml(node.value).replace(/\n/g, '<br>\n');
+			case 'inlineCode':
+				return `<code>${escapeHtml(node.value)}</code>`;
+			case 'break':
+				return '<br>\n';
+			case 'html':
+				return node.value;
+			case 'image':
+				return `<img src="${escapeHtml(node.url)}" alt="${escapeHtml(node.alt || '')}">`;
+			case 'link':
+				return `<a href="${escapeHtml(node.url)}">${getPhrasingHtml(node.children, context)}</a>`;
+			case 'footnoteReference': {
+				const id = escapeHtml(node.identifier);
+				return `<sup id="fnref-${id}"><a href="#fn-${id}">${escapeHtml(node.label ?? node.identifier)}</a></sup>`;
+			}
+			default: {
+				const style = node.type === 'strong'
+					? 'BOLD'
+					: node.type === 'emphasis' ? 'ITALIC' : node.type === 'delete' ? 'STRIKETHROUGH' : node.style;
+				const content = getPhrasingHtml(node.children, context);
+				const tags = getStyleTags(style, context);
+				return tags ? `${tags[0]}${content}${tags[1]}` : content;
+			}
+		}
+	}).join('');
+}
+
+/**
+ * Function returns the nodes with each inlineStyle node replaced by html nodes of its tags around its children.
+ * Styles without tags are replaced by their children.
+ */
+function replaceStyleNodes(nodes: MdastNode[], context: HtmlContext): MdastNode[] {
+	return nodes.flatMap((node): MdastNode[] => {
+		if (!('children' in node)) return [node];
+		const children = replaceStyleNodes(node.children, context);
+		if (node.type !== 'inlineStyle') return [{...node, children} as MdastNode];
+		const tags = getStyleTags(node.style, context);
+		if (!tags) return children;
+		const start = node.position && {start: node.position.start, end: node.position.start};
+		const end = node.position && {start: node.position.end, end: node.position.end};
+		return [{type: 'html', value: tags[0], position: start}, ...children, {type: 'html', value: tags[1], position: end}];
+	});
+}
+
+/**
+ * The function returns an mdast tree with only standard nodes, for tools that don't know the inlineStyle node.
+ * Inline styles like UNDERLINE or SUPERSCRIPT are written as html nodes of their tags around their content.
+ */
+export function getStandardMdast(tree: Root, context: HtmlContext): Root {
+	return {...tree, children: replaceStyleNodes(tree.children, context) as BlockContent[]};
+}
+
+/**
+ * Function returns the html element of a block type, or the fallback for types without one.
+ */
+function getBlockTag(blockType: string | undefined, fallback: string, context: HtmlContext): string {
+	return blockType !== undefined && Object.hasOwn(context.blockTags, blockType) ? context.blockTags[blockType] : fallback;
+}
+
+/**
+ * Function returns the html for a list item.
+ * The text of an item is written directly in the li, followed by the lists nested in it.
+ */
+function getListItemHtml(item: ListItem, context: HtmlContext): string {
+	const [first, ...rest] = item.children;
+	const children = first?.type === 'paragraph' ? rest : item.children;
+	const text = first?.type === 'paragraph' ? getPhrasingHtml(first.children, context) : '';
+	const nested = children.map(child => `\n${getBlockNodeHtml(child, context)}`).join('');
+	return `<li${getAttributesHtml(item.data?.attributes)}>${text}${nested}${nested ? '\n' : ''}</li>`;
+}
+
+/**
+ * Function returns the html for a list, as ol or ul by whether it's ordered.
+ */
+function getListHtml(list: List, context: HtmlContext): string {
+	const tag = list.ordered ? 'ol' : 'ul';
+	const start = list.ordered && list.start !== undefined && list.start !== null && list.start !== 1
+		? ` start="${list.start}"`
+		: '';
+	const items = list.children.map(item => getListItemHtml(item, context)).join('\n');
+	return `<${tag}${start}>\n${items}\n</${tag}>`;
+}
+
+/**
+ * Function returns the html for a block node.
+ * The attributes of the block are written on its element.
+ */
+function getBlockNodeHtml(node: BlockContent, context: HtmlContext): string {
+	const attributes = getAttributesHtml(node.data?.attributes);
+	switch (node.type) {
+		case 'paragraph': {
+			const tag = getBlockTag(node.data?.blockType, 'p', context);
+			return `<${tag}${attributes}>${getPhrasingHtml(node.children, context)}</${tag}>`;
+		}
+		case 'heading': {
+			const tag = getBlockTag(node.data?.blockType ?? HEADING_TYPES[node.depth - 1], `h${node.depth}`, context);
+			return `<${tag}${attributes}>${getPhrasingHtml(node.children, context)}</${tag}>`;
+		}
+		case 'blockquote': {
+			const tag = getBlockTag(node.data?.blockType, 'blockquote', context);
+			return `<${tag}${attributes}>\n${node.children.map(child => getBlockNodeHtml(child, context)).join('\n')}\n</${tag}>`;
+		}
+		case 'code': {
+			const language = node.lang ? ` class="language-${escapeHtml(node.lang)}"` : '';
+			return `<pre${attributes}><code${language}>${escapeHtml(node.value)}</code></pre>`;
+		}
+		case 'list':
+			return getListHtml(node, context);
+		case 'html':
+			return node.value;
+		case 'footnoteDefinition':
+			return getFootnoteHtml(node, context);
+	}
+}
+
+/**
+ * Function returns the html for a footnote definition, as an item of the footnotes list linking back to its reference.
+ */
+function getFootnoteHtml(node: FootnoteDefinition, context: HtmlContext): string {
+	const id = escapeHtml(node.identifier);
+	const content = node.children.map(child => `${getBlockNodeHtml(child, context)}\n`).join('');
+	return `<li id="fn-${id}">\n${content}<a href="#fnref-${id}">↩</a>\n</li>`;
+}
+
+/**
+ * The function will generate html for an mdast tree, as made by draftToMdast.
+ * Footnote definitions are written last, in a footnotes section.
+ */
+export function mdastToHtml(tree: Root, config: Config = {}): string {
+	const context = getHtmlContext(config);
+	const blocks = tree.children.filter(node => node.type !== 'footnoteDefinition');
+	const footnotes = tree.children.filter(node => node.type === 'footnoteDefinition');
+	const html = blocks.map(node => `${getBlockNodeHtml(node, context)}\n`).join('');
+	if (footnotes.length === 0) return html;
+	const items = footnotes.map(node => getBlockNodeHtml(node, context)).join('\n');
+	return `${html}<section class="footnotes">\n<ol>\n${items}\n</ol>\n</section>\n`;
+}
@@ -0,0 +1,887 @@
+import type {BlockTypesMapping, Config, StyleTransform} from './index.ts';
+import type {
+	BlockAttributes,
+	BlockContent,
+	Code,
+	FootnoteDefinition,
+	Image,
+	Link,
+	List,
+	ListItem,
+	MdastNode,
+	PhrasingContent,
+	Root,
+} from './mdast.ts';
+import {addBlockAttributesMarkdown, getAttributesMarkdown, wrapBlockMarkdown} from './blockData.ts';
+import {getBlockSeparator} from './common.ts';
+import {defaultBlockTypesMapping, defaultStyleTransform} from './defaults.ts';
+import {getTextMarkdown} from './escape.ts';
+import {getFlavor, type Flavor} from './flavors.ts';
+import {
+	getSourceMap,
+	markNode,
+	MARKER_SOURCE,
+	stripMarkers,
+	type SourceMap,
+	type SourceMapCollector,
+} from './sourceMap.ts';
+
+/**
+ * How links and images are written: inline as `[text](url)`, as a full reference `[text][id]`
+ * or as a collapsed reference `[text][]`, with the definitions of the references at the end of the document.
+ */
+export type LinkStyle = 'inline' | 'reference' | 'collapsed';
+
+/**
+ * How the ids of full references are made: numbered in the order of the links, or slugged from their text.
+ */
+export type LinkReferenceIds = 'numbered' | 'slugged';
+
+/**
+ * Formatting of the markdown of a document: blocks are separated by a blank line while the items of lists stay tight,
+ * empty paragraphs are left out, and lines don't end with whitespace other than hard breaks.
+ */
+export interface FormatOptions {
+	/** Column paragraphs are hard-wrapped at, they aren't wrapped by default */
+	wrapColumn?: number;
+}
+
+/**
+ * The reference definitions of a document, collected while writing its links.
+ */
+interface LinkReferences {
+	/** Label of the definition of each destination, its url and title as they're written */
+	labels: Map<string, string>;
+	/** Destination of each normalized label */
+	urls: Map<string, string>;
+	/** Count of the numbered labels */
+	count: number;
+}
+
+/**
+ * Mappings used while writing markdown, resolved once from the config.
+ */
+export interface MarkdownContext {
+	config: Config;
+	flavor: Flavor;
+	blockTypesMapping: BlockTypesMapping;
+	styleTransform: StyleTransform;
+	htmlStyleTransform: StyleTransform;
+	references: LinkReferences;
+	/** Nodes marked in the markdown when a source map is made */
+	sourceMap?: SourceMapCollector;
+	/** Spaces of text are written as wrap points, while writing a paragraph that's wrapped */
+	wrapping?: boolean;
+}
+
+const HEADING_TYPES = ['header-one', 'header-two', 'header-three', 'header-four', 'header-five', 'header-six'];
+
+/**
+ * Function returns the markdown context for a config.
+ * The mappings of the flavor apply over the defaults, and the ones of the config over the flavor.
+ */
+export function getMarkdownContext(config: Config): MarkdownContext {
+	const flavor = getFlavor(config);
+	return {
+		config,
+		flavor,
+		blockTypesMapping: {
+			...defaultBlockTypesMapping,
+			...flavor.blockTypesMapping,
+			...(config?.blockTypesMapping ?? {}),
+		} as BlockTypesMapping,
+		styleTransform: {
+			...defaultStyleTransform,
+			...flavor.styleTransform,
+			...(config?.customStyleTransform || {}),
+		} as StyleTransform,
+		htmlStyleTransform: {
+			...flavor.htmlStyleTransform,
+			...(config?.htmlStyleTransform || {}),
+		} as StyleTransform,
+		references: {labels: new Map(), urls: new Map(), count: 0},
+	};
+}
+
+/**
+ * Function returns markdown for inline style symbols.
+ */
+export function addInlineStyleMarkdown(style: string, content: string, styleTransform: StyleTransform): string {
+	const value = styleTransform[style];
+	if (value === null || typeof value === 'undefined') return content;
+	let left: string, right: string;
+	if (typeof value === 'string') {
+		// It's a string
+		left = value;
+		right = value;
+	} else {
+		// It's an array
+		[left, right] = value;
+	}
+	return `${left}${content}${right}`;
+}
+
+/**
+ * Function returns the longest run of a character in a string.
+ */
+export function getLongestRun(text: string, ch: string): number {
+	let longest = 0;
+	let current = 0;
+	for (const c of text) {
+		current = c === ch ? current + 1 : 0;
+		longest = Math.max(longest, current);
+	}
+	return longest;
+}
+
+/**
+ * Function returns markdown for a code span.
+ * The backtick fence is made longer than any backtick run in the code.
+ */
+export function getCodeSpanMarkdown(code: string): string {
+	const fence = '`'.repeat(getLongestRun(code, '`') + 1);
+	const padded = code.startsWith('`')
+		|| code.endsWith('`')
+		|| (code.startsWith(' ') && code.endsWith(' ') && code.trim().length > 0);
+	return padded ? `${fence} ${code} ${fence}` : `${fence}${code}${fence}`;
+}
+
+/**
+ * Replace leading blank spaces by &nbsp;
+ */
+export function trimLeadingZeros(sectionText: string): string {
+	if (sectionText) {
+		let replacedText = sectionText;
+		for (let i = 0; i < replacedText.length; i += 1) {
+			if (sectionText[i] === ' ') {
+				replacedText = replacedText.replace(' ', '&nbsp;');
+			} else {
+				break;
+			}
+		}
+		return replacedText;
+	}
+	return sectionText;
+}
+
+/**
+ * Replace trailing blank spaces by &nbsp;
+ */
+export function trimTrailingZeros(sectionText: string): string {
+	if (sectionText) {
+		let replacedText = sectionText;
+		for (let i = replacedText.length - 1; i >= 0; i -= 1) {
+			if (replacedText[i] === ' ') {
+				replacedText = `${replacedText.substring(
+					0,
+					i,
+				)}&nbsp;${replacedText.substring(i + 1)}`;
+			} else {
+				break;
+			}
+		}
+		return replacedText;
+	}
+	return sectionText;
+}
+
+function isPunctuation(ch: string | undefined): boolean {
+	return ch !== undefined && /[\p{P}\p{S}]/u.test(ch);
+}
+
+function isSpace(ch: string | undefined): boolean {
+	return ch === undefined || /\s/.test(ch);
+}
+
+/**
+ * Function returns true if the delimiters can open and close emphasis around the content,
+ * following the flanking rules of CommonMark.
+ * Delimiters other than runs of *, _ or ~ are always accepted.
+ */
+function canFlank(left: string, right: string, before: string | undefined, content: string, after: string | undefined): boolean {
+	if (!/^(?:\*+|_+|~+)$/.test(left) || !/^(?:\*+|_+|~+)$/.test(right)) return true;
+	const first = content[0];
+	const last = content[content.length - 1];
+	const leftFlanking = !isSpace(first) && (!isPunctuation(first) || isSpace(before) || isPunctuation(before));
+	const rightFlanking = !isSpace(last) && (!isPunctuation(last) || isSpace(after) || isPunctuation(after));
+	if (left.startsWith('_') && (/[\p{L}\p{N}]/u.test(before ?? '') || /[\p{L}\p{N}]/u.test(after ?? ''))) {
+		// Underscores inside a word are never emphasis
+		return false;
+	}
+	return leftFlanking && rightFlanking;
+}
+
+/**
+ * Function returns true if a delimiter would touch a run of the same character written by a sibling node,
+ * as the runs would be read as one.
+ */
+function touchesRun(left: string, right: string, previous: string | undefined, next: string | undefined): boolean {
+	return (/^[*_~]/.test(left) && previous === left[0]) || (/[*_~]$/.test(right) && next === right[right.length - 1]);
+}
+
+/**
+ * Function returns the * delimiters of a style as _ delimiters, which CommonMark reads the same,
+ * or undefined when they aren't * runs or their _ form is the delimiter of another style.
+ */
+function getUnderscoreDelimiters(left: string, right: string, styleTransform: StyleTransform): [string, string] | undefined {
+	if (!/^\*+$/.test(left) || !/^\*+$/.test(right)) return undefined;
+	const underscores: [string, string] = [left.replace(/\*/g, '_'), right.replace(/\*/g, '_')];
+	const taken = Object.values(styleTransform).some(value => (
+		value !== null && value !== undefined && getDelimiters(value).some(delimiter => underscores.includes(delimiter))
+	));
+	return taken ? undefined : underscores;
+}
+
+/**
+ * Function returns the left and right delimiters of a style transform value.
+ */
+function getDelimiters(value: string | [string, string]): [string, string] {
+	return typeof value === 'string' ? [value, value] : value;
+}
+
+/**
+ * Function returns the inline style written for a style node, or undefined for other nodes.
+ */
+function getNodeStyle(node: MdastNode | undefined): string | undefined {
+	switch (node?.type) {
+		case 'strong':
+			return 'BOLD';
+		case 'emphasis':
+			return 'ITALIC';
+		case 'delete':
+			return 'STRIKETHROUGH';
+		case 'inlineStyle':
+			return node.style;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Function returns the markdown of a hard line break, in the style of the config or the flavor.
+ */
+function getBreakMarkdown(context: MarkdownContext): string {
+	switch (context.config?.hardBreakStyle ?? context.flavor.hardBreak) {
+		case 'backslash':
+			return '\\\n';
+		case 'html':
+			return '<br>\n';
+		case 'newline':
+			return '\n';
+		default:
+			return '  \n';
+	}
+}
+
+/**
+ * Newlines followed by a line with content, markers of the source map aside.
+ */
+const CONTINUED_LINE = new RegExp(`\\n(?=${MARKER_SOURCE}*[^\\n\\uE000-\\uE003])`, 'g');
+
+/**
+ * Lines of only spaces, markers of the source map aside.
+ */
+const BLANK_LINE = new RegExp(`(?<=^|\\n)(?:[ \\t]|${MARKER_SOURCE})*\\n`, 'g');
+
+const LEADING_SPACES = new RegExp(`^(?: |${MARKER_SOURCE})+`);
+
+const TRAILING_SPACES = new RegExp(`(?: |${MARKER_SOURCE})+$`);
+
+/**
+ * Whitespace at the end of a line, markers of the source map aside.
+ */
+const LINE_END_SPACES = new RegExp(`(?:[ \\t]|${MARKER_SOURCE})*[ \\t](?:[ \\t]|${MARKER_SOURCE})*(?=\\n|$)`, 'g');
+
+/**
+ * Newlines at the end of the markdown, markers of the source map aside.
+ */
+const FINAL_NEWLINES = new RegExp(`(?:\\n|${MARKER_SOURCE})+$`);
+
+/**
+ * A space of text paragraphs can be wrapped at, a private use character like the markers of the source map.
+ */
+const WRAP_POINT = '\uE004';
+
+/**
+ * Start of the text of a line that can't be read as the start of a block, like a list item, a heading or a fence:
+ * a word, a link, an image, a code span or emphasis.
+ */
+const WRAPPED_LINE_START = /^(?!\d+[.)])(?:[\p{L}\p{N}"'(“‘[]|!\[|`(?!``)|[*_~]{1,2}[^\s*_~])/u;
+
+/**
+ * Function replaces leading and trailing spaces by &nbsp; as trimLeadingZeros and trimTrailingZeros do,
+ * markers of the source map aside.
+ */
+function keepSpaces(markdown: string): string {
+	const replace = (run: string): string => run.replace(/ /g, '&nbsp;');
+	return markdown.replace(LEADING_SPACES, replace).replace(TRAILING_SPACES, replace);
+}
+
+/**
+ * Function returns the markers of the source map in markdown, without the text between them.
+ */
+function getMarkers(markdown: string): string {
+	return (markdown.match(new RegExp(MARKER_SOURCE, 'g')) ?? []).join('');
+}
+
+/**
+ * Function returns markdown as it's written, without markers and with its wrap points as spaces.
+ */
+function getWrittenText(markdown: string): string {
+	return stripMarkers(markdown).replaceAll(WRAP_POINT, ' ');
+}
+
+/**
+ * Function returns the separator written after each block, a newline for formatted markdown
+ * whose blank lines between blocks are added by writeMarkdown.
+ */
+function getSeparator(context: MarkdownContext): string {
+	return context.config?.format ? '\n' : getBlockSeparator(context.config);
+}
+
+/**
+ * Function returns the width paragraphs are wrapped at, given the columns taken by the prefixes of their lines,
+ * or undefined if they aren't wrapped.
+ */
+function getWrapWidth(context: MarkdownContext, indent: number): number | undefined {
+	const column = context.config?.format?.wrapColumn;
+	return column === undefined ? undefined : Math.max(1, column - indent);
+}
+
+/**
+ * Function wraps the lines of markdown at its wrap points, so they don't go over width where possible.
+ * Words longer than the width are left alone, and a line is never started with text that could start a block.
+ */
+function wrapLines(markdown: string, width: number): string {
+	return markdown.split('\n').map(line => {
+		let column = 0;
+		return line.split(WRAP_POINT).map((word, index) => {
+			const length = [...stripMarkers(word)].length;
+			const wrapped = column > 0 && column + 1 + length > width && WRAPPED_LINE_START.test(stripMarkers(word));
+			column = index === 0 || wrapped ? length : column + 1 + length;
+			return index === 0 ? word : `${wrapped ? '\n' : ' '}${word}`;
+		}).join('');
+	}).join('\n');
+}
+
+/**
+ * Function removes the whitespace at the end of the lines of the content of a block.
+ * Lines ending with a hard break of spaces keep two spaces, and the end of the content keeps its spaces
+ * in flavors with html, as they're written as &nbsp;.
+ */
+function trimLineEnds(markdown: string, context: MarkdownContext): string {
+	const spacesBreak = (context.config?.hardBreakStyle ?? context.flavor.hardBreak) === 'spaces';
+	return markdown.replace(LINE_END_SPACES, (spaces, offset: number) => {
+		if (offset + spaces.length === markdown.length) return context.flavor.html ? spaces : getMarkers(spaces);
+		return getMarkers(spaces) + (spacesBreak ? '  ' : '');
+	});
+}
+
+/**
+ * Function returns the content of a block after its prefix.
+ * The prefix of an empty block is written without its trailing spaces in formatted markdown.
+ */
+function addPrefix(prefix: string, content: string, context: MarkdownContext): string {
+	return context.config?.format && stripMarkers(content) === '' ? prefix.trimEnd() + content : prefix + content;
+}
+
+/**
+ * Function prefixes the lines of markdown following the first one, so they continue the container they're written in.
+ * Empty lines are left alone.
+ */
+function continueLines(markdown: string, prefix: string): string {
+	return prefix ? markdown.replace(CONTINUED_LINE, `\n${prefix}`) : markdown;
+}
+
+/**
+ * Function returns the inline nodes with their breaks replaced, for blocks that can't span lines.
+ */
+function replaceBreaks(nodes: PhrasingContent[], replacement: PhrasingContent): PhrasingContent[] {
+	return nodes.map(node => {
+		if (node.type === 'break') return replacement;
+		return 'children' in node ? {...node, children: replaceBreaks(node.children, replacement)} : node;
+	});
+}
+
+/**
+ * Function returns the text of inline nodes without any markup.
+ */
+function getPlainText(nodes: PhrasingContent[]): string {
+	return nodes.map(node => {
+		switch (node.type) {
+			case 'text':
+			case 'inlineCode':
+				return node.value;
+			case 'break':
+				return ' ';
+			case 'image':
+				return node.alt ?? '';
+			default:
+				return 'children' in node ? getPlainText(node.children) : '';
+		}
+	}).join('');
+}
+
+/**
+ * Function returns a label as it's matched, labels are case-insensitive and their whitespace is collapsed.
+ */
+function normalizeLabel(label: string): string {
+	return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Function returns a label no other definition uses, slugged from text or numbered when there's no slug.
+ */
+function getUniqueLabel(text: string, references: LinkReferences): string {
+	const slug = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+	if (slug) {
+		let label = slug;
+		for (let suffix = 2; references.urls.has(label); suffix += 1) label = `${slug}-${suffix}`;
+		return label;
+	}
+	let label: string;
+	do {
+		references.count += 1;
+		label = String(references.count);
+	} while (references.urls.has(label));
+	return label;
+}
+
+/**
+ * Function returns the url of a link or image followed by its title in quotes, if it has one.
+ * Urls of definitions with spaces or brackets are written in angle brackets.
+ */
+function getUrlMarkdown(url: string, title: string | null | undefined, definition: boolean): string {
+	const destination = definition && /[\s<>()]/.test(url) ? `<${url.replace(/[<>]/g, ch => `\\${ch}`)}>` : url;
+	return title ? `${destination} "${title.replace(/["\\]/g, ch => `\\${ch}`)}"` : destination;
+}
+
+/**
+ * Function returns the destination written after the text of a link or image, as set by linkStyle.
+ * A url and title get one definition, later links to them reference the same label.
+ * Collapsed references are labelled with the text of the link, falling back to a numbered label
+ * when the text is empty or labels another destination.
+ */
+function getLinkDestination(node: Link | Image, text: string, plainText: string, context: MarkdownContext): string {
+	const style = context.config?.linkStyle ?? 'inline';
+	if (style === 'inline') return `(${getUrlMarkdown(node.url, node.title, false)})`;
+	const url = getUrlMarkdown(node.url, node.title, true);
+	const {references} = context;
+	const existing = references.labels.get(url);
+	if (existing !== undefined) {
+		return style === 'collapsed' && normalizeLabel(existing) === normalizeLabel(text) ? '[]' : `[${existing}]`;
+	}
+	const collapsed = style === 'collapsed' && text.trim() !== '' && !references.urls.has(normalizeLabel(text));
+	const label = collapsed
+		? text
+		: getUniqueLabel(context.config?.linkReferenceIds === 'slugged' ? plainText : '', references);
+	references.labels.set(url, label);
+	references.urls.set(normalizeLabel(label), url);
+	return collapsed ? '[]' : `[${label}]`;
+}
+
+/**
+ * Function returns the reference definitions of the links written with a context, one per line.
+ */
+function getDefinitionsMarkdown(context: MarkdownContext): string {
+	return [...context.references.labels].map(([url, label]) => `[${label}]: ${url}\n`).join('');
+}
+
+/**
+ * Function returns the markdown for an inline node, without the delimiters of a style node.
+ */
+function getPhrasingNodeMarkdown(node: PhrasingContent, context: MarkdownContext): string {
+	const {flavor} = context;
+	switch (node.type) {
+		case 'text': {
+			// The escaped markdown of the tree is stale once a plugin changed the value
+			const cached = node.data?.markdownValue === node.value ? node.data.markdown : undefined;
+			const markdown = cached ?? node.value
+				.split('\n')
+				.map(line => getTextMarkdown(line, flavor, context.config?.markdownEscaping ?? flavor.markdownEscaping))
+				.join(getBreakMarkdown(context));
+			// Runs of spaces aren't wrap points, so none of their spaces is lost
+			return context.wrapping ? markdown.replace(/(?<! ) (?! )/g, WRAP_POINT) : markdown;
+		}
+		case 'break':
+			return getBreakMarkdown(context);
+		case 'inlineCode':
+			return (flavor.getCodeSpanMarkdown ?? getCodeSpanMarkdown)(node.value);
+		case 'html':
+			return node.value;
+		case 'image':
+			return flavor.getImageMarkdown
+				? flavor.getImageMarkdown(node.url, node.alt || '')
+				: `![${node.alt || ''}]${getLinkDestination(node, node.alt || '', node.alt || '', context)}`;
+		case 'link': {
+			const text = getPhrasingMarkdown(node.children, '[', ']', {...context, wrapping: false});
+			return flavor.getLinkMarkdown
+				? flavor.getLinkMarkdown(node.url, text)
+				: `[${text}]${getLinkDestination(node, stripMarkers(text), getPlainText(node.children), context)}`;
+		}
+		case 'footnoteReference':
+			return `[^${node.label ?? node.identifier}]`;
+		default:
+			return getPhrasingMarkdown(node.children, '*', '*', context);
+	}
+}
+
+/**
+ * Function returns the markdown of an inline node wrapped in the markers of the source map, if one is made.
+ * Text is mapped character by character, code as it is.
+ */
+function markPhrasingNode(node: PhrasingContent, markdown: string, context: MarkdownContext): string {
+	if (!context.sourceMap) return markdown;
+	switch (node.type) {
+		case 'text':
+			return markNode(context.sourceMap, node, 'text', markdown, {value: node.value});
+		case 'break':
+			return markNode(context.sourceMap, node, 'text', markdown);
+		case 'inlineCode':
+			return markNode(context.sourceMap, node, 'style', markdown, {value: node.value, verbatim: true});
+		case 'link':
+		case 'image':
+		case 'html':
+		case 'footnoteReference':
+			return markNode(context.sourceMap, node, 'entity', markdown);
+		default:
+			return markNode(context.sourceMap, node, 'style', markdown);
+	}
+}
+
+/**
+ * The function returns markdown for inline nodes.
+ * before and after are the characters written around the nodes, used to check whether delimiters flank.
+ * Delimiters touching the delimiter run of a sibling are written with _ instead of *, when that's free.
+ * When markdown delimiters can't flank their content, the html form of the style is used.
+ */
+export function getPhrasingMarkdown(
+	nodes: PhrasingContent[],
+	before: string | undefined,
+	after: string | undefined,
+	context: MarkdownContext,
+): string {
+	// Content of style nodes is written first, as it's needed to pick delimiters
+	const contents = nodes.map(node => getPhrasingNodeMarkdown(node, context));
+	const markdown: string[] = [];
+	nodes.forEach((node, index) => {
+		const style = getNodeStyle(node);
+		const value = style === undefined ? undefined : context.styleTransform[style];
+		if (style === undefined || value === undefined) {
+			markdown.push(markPhrasingNode(node, contents[index], context));
+			return;
+		}
+		const [left, right] = getDelimiters(value);
+		const nextStyle = getNodeStyle(nodes[index + 1]);
+		const nextValue = nextStyle === undefined ? undefined : context.styleTransform[nextStyle];
+		const nextChar = index + 1 === nodes.length
+			? after
+			: nextValue !== undefined ? getDelimiters(nextValue)[0][0] : getWrittenText(contents[index + 1])[0];
+		const previous = getWrittenText(markdown[markdown.length - 1] ?? '');
+		const previousChar = previous ? previous[previous.length - 1] : before;
+		const content = getWrittenText(contents[index]);
+		const siblingChar = index + 1 === nodes.length ? undefined : nextChar;
+		const touching = touchesRun(left, right, previous ? previousChar : undefined, siblingChar);
+		const underscores = touching ? getUnderscoreDelimiters(left, right, context.styleTransform) : undefined;
+		const html = context.htmlStyleTransform[style];
+		if (!touching && canFlank(left, right, previousChar, content, nextChar)) {
+			markdown.push(markPhrasingNode(node, addInlineStyleMarkdown(style, contents[index], context.styleTransform), context));
+		} else if (
+			underscores && !touchesRun(...underscores, previousChar, siblingChar)
+			&& canFlank(...underscores, previousChar, content, nextChar)
+		) {
+			markdown.push(markPhrasingNode(node, `${underscores[0]}${contents[index]}${underscores[1]}`, context));
+		} else if (html !== undefined) {
+			markdown.push(markPhrasingNode(node, addInlineStyleMarkdown(style, contents[index], context.htmlStyleTransform), context));
+		} else {
+			markdown.push(markPhrasingNode(node, addInlineStyleMarkdown(style, contents[index], context.styleTransform), context));
+		}
+	});
+	return markdown.join('');
+}
+
+/**
+ * Function returns the markdown for the content of a block,
+ * with leading and trailing spaces kept as &nbsp; in flavors with html.
+ * Lines following a hard break aren't prefixed, that's up to the container of the block.
+ * The attributes of the block are written after it in attributes mode, the html mode wraps the whole block.
+ * In formatted markdown, the content is wrapped at width if it's given and its lines don't end with whitespace.
+ */
+function getContentMarkdown(
+	nodes: PhrasingContent[],
+	context: MarkdownContext,
+	attributes?: BlockAttributes,
+	width?: number,
+): string {
+	let markdown = width === undefined
+		? getPhrasingMarkdown(nodes, undefined, undefined, context)
+		: wrapLines(getPhrasingMarkdown(nodes, undefined, undefined, {...context, wrapping: true}), width);
+	if (context.config?.format) markdown = trimLineEnds(markdown, context);
+	if ((context.config?.hardBreakStyle ?? context.flavor.hardBreak) === 'spaces') {
+		// A line of only spaces would end the paragraph, so empty lines end with a backslash instead
+		markdown = markdown.replace(BLANK_LINE, line => `${line.replace(/[ \t]|\n$/g, '')}\\\n`);
+	}
+	const content = context.flavor.html ? keepSpaces(markdown) : markdown;
+	return addBlockAttributesMarkdown(attributes, content, context.config);
+}
+
+/**
+ * Function returns the prefix of a block type from the blockTypesMapping.
+ */
+function getBlockPrefix(blockType: string, context: MarkdownContext): string {
+	return Object.hasOwn(context.blockTypesMapping, blockType) ? context.blockTypesMapping[blockType] ?? '' : '';
+}
+
+function getDepthPadding(depth: number): string {
+	return ' '.repeat(depth * 4);
+}
+
+/**
+ * Function returns the marker of a list item.
+ * Items of ordered lists are numbered from the start of the list, unless orderedListNumbering is 'ones'.
+ */
+function getListItemMarker(item: ListItem, list: List, counter: number, context: MarkdownContext): string {
+	const blockType = item.data?.blockType ?? (list.ordered ? 'ordered-list-item' : 'unordered-list-item');
+	const marker = getBlockPrefix(blockType, context);
+	const numbered = /^\d+(\\?[.)]) $/.exec(marker);
+	if (blockType !== 'ordered-list-item' || !numbered) return marker;
+	const number = context.config?.orderedListNumbering === 'ones' ? list.start ?? 1 : counter;
+	return `${number}${numbered[1]} `;
+}
+
+/**
+ * Function returns the markdown for a list indented by indent columns.
+ * Nested lists are indented up to the content of their parent item, so the width of the
+ * parent marker is taken into account. prefixWidth is the width of the prefixes of the container of the list.
+ * Items without a paragraph of their own indent their children by the width of the marker they'd have,
+ * and only when an item was written before them, as there's nothing else to nest the children in.
+ */
+function getListMarkdown(list: List, indent: number, context: MarkdownContext, prefixWidth = 0, nested = false): string {
+	const markdown: string[] = [];
+	let counter = list.start ?? 1;
+	let afterItem = nested;
+	list.children.forEach(item => {
+		const marker = getListItemMarker(item, list, counter, context);
+		let column = afterItem ? indent + marker.length : indent;
+		let children = item.children;
+		const [first, ...rest] = children;
+		if (first?.type === 'paragraph') {
+			counter += 1;
+			column = indent + marker.length;
+			const width = getWrapWidth(context, prefixWidth + column);
+			const content = wrapBlockMarkdown(
+				item.data?.attributes,
+				getContentMarkdown(first.children, context, item.data?.attributes, width),
+				context.config,
+			);
+			const line = ' '.repeat(indent) + addPrefix(marker, continueLines(content, ' '.repeat(column)), context);
+			markdown.push(markNode(context.sourceMap, item, 'block', line) + getSeparator(context));
+			children = rest;
+			afterItem = true;
+		}
+		children.forEach(child => {
+			markdown.push(child.type === 'list'
+				? getListMarkdown(child, column, context, prefixWidth, afterItem)
+				: ' '.repeat(column) + continueLines(getBlockNodeMarkdown(child, context, prefixWidth + column), ' '.repeat(column)));
+		});
+	});
+	return markdown.join('');
+}
+
+/**
+ * Function returns the code of a code block with the text of each of its blocks marked, if a source map is made.
+ * Blocks merged into one code block are separated by a newline.
+ */
+function markCode(node: Code, context: MarkdownContext): string {
+	const {sourceMap} = context;
+	const positions = node.data?.positions ?? (node.position ? [node.position] : []);
+	if (!sourceMap || positions.length === 0) return node.value;
+	const units = context.config?.offsetUnit === 'utf-16' ? node.value.split('') : [...node.value];
+	const lengths = positions.map(({start, end}) => end.column - start.column);
+	if (lengths.reduce((total, length) => total + length + 1, -1) !== units.length) return node.value;
+	let index = 0;
+	return positions.map((position, i) => {
+		const text = units.slice(index, index + lengths[i]).join('');
+		index += lengths[i] + 1;
+		return markNode(sourceMap, {type: 'text', value: text, position}, 'text', text, {value: text, verbatim: true});
+	}).join('\n');
+}
+
+/**
+ * Function will return markdown for a fenced code block.
+ * The fence is made longer than any run of the fence character in the code.
+ * Attributes are only written in attribute syntax, after the language.
+ */
+function getCodeBlockMarkdown(code: string, language: string, context: MarkdownContext, attributes?: BlockAttributes): string {
+	if (context.flavor.getCodeBlockMarkdown) {
+		return context.flavor.getCodeBlockMarkdown(code, language) + getSeparator(context);
+	}
+	// Info strings of backtick fences can't contain backticks
+	const fenceChar = language.includes('`') ? '~' : '`';
+	const fence = fenceChar.repeat(Math.max(3, getLongestRun(code, fenceChar) + 1));
+	const info = context.config?.blockDataRendering === 'attributes' ? language + getAttributesMarkdown(attributes) : language;
+	return `${fence}${info}\n${code}\n${fence}${getSeparator(context)}`;
+}
+
+/**
+ * Function returns the markdown for a block node.
+ * Blocks are written with the prefix of their block type, followed by the block separator.
+ * indent is the width of the prefixes of the container of the block, taken off the width paragraphs are wrapped at.
+ */
+function getBlockNodeMarkdown(node: BlockContent, context: MarkdownContext, indent = 0): string {
+	const separator = getSeparator(context);
+	switch (node.type) {
+		case 'paragraph': {
+			const prefix = getBlockPrefix(node.data?.blockType ?? 'unstyled', context);
+			const width = getWrapWidth(context, indent + prefix.length);
+			return markNode(
+				context.sourceMap,
+				node,
+				'block',
+				wrapBlockMarkdown(
+					node.data?.attributes,
+					addPrefix(prefix, getContentMarkdown(node.children, context, node.data?.attributes, width), context),
+					context.config,
+				),
+			) + separator;
+		}
+		case 'heading': {
+			const {headingStyle} = context.flavor;
+			// Headings can't span lines, breaks in them are written as <br /> or a space
+			const content = replaceBreaks(
+				node.children,
+				context.flavor.html ? {type: 'html', value: '<br />'} : {type: 'text', value: ' '},
+			);
+			// Flavors without headings write their text in a style instead
+			const children: PhrasingContent[] = headingStyle
+				? [{type: 'inlineStyle', style: headingStyle, children: content}]
+				: content;
+			const attributes = node.data?.attributes;
+			// Without blockDataRendering the id of headingIds is still written, in attribute syntax
+			const id = context.config?.headingIds && (context.config.blockDataRendering ?? 'none') === 'none' && !headingStyle
+				? getAttributesMarkdown(attributes?.id === undefined ? undefined : {id: attributes.id, classes: [], style: {}, attributes: {}})
+				: '';
+			return markNode(
+				context.sourceMap,
+				node,
+				'block',
+				wrapBlockMarkdown(attributes, addPrefix(
+					getBlockPrefix(node.data?.blockType ?? HEADING_TYPES[node.depth - 1], context),
+					getContentMarkdown(children, context, attributes) + id,
+					context,
+				), context.config),
+			) + separator;
+		}
+		case 'blockquote': {
+			// Every line of the quote is prefixed, and its paragraphs are separated by a line of only the prefix
+			const prefix = getBlockPrefix(node.data?.blockType ?? 'blockquote', context);
+			const width = getWrapWidth(context, indent + prefix.length);
+			const quote = node.children.map(child => addPrefix(prefix, continueLines(
+				child.type === 'paragraph'
+					? markNode(context.sourceMap, child, 'block', getContentMarkdown(child.children, context, node.data?.attributes, width))
+					: getBlockNodeMarkdown(child, context, indent + prefix.length).replace(/\n+$/, ''),
+				prefix,
+			), context)).join(`\n${prefix.trimEnd()}\n`);
+			return markNode(context.sourceMap, node, 'block', wrapBlockMarkdown(node.data?.attributes, quote, context.config)) + separator;
+		}
+		case 'code': {
+			const markdown = getCodeBlockMarkdown(markCode(node, context), node.lang ?? '', context, node.data?.attributes);
+			const code = markdown.substring(0, markdown.length - separator.length);
+			return markNode(context.sourceMap, node, 'block', wrapBlockMarkdown(node.data?.attributes, code, context.config)) + separator;
+		}
+		case 'list':
+			return getListMarkdown(node, 0, context, indent);
+		case 'html':
+			return markNode(context.sourceMap, node, 'block', node.value) + separator;
+		case 'footnoteDefinition':
+			return markNode(context.sourceMap, node, 'entity', getFootnoteMarkdown(node, context, indent)) + separator;
+	}
+}
+
+/**
+ * Function returns the markdown for a footnote definition.
+ * Lines after the first are indented, so they continue the footnote.
+ */
+function getFootnoteMarkdown(node: FootnoteDefinition, context: MarkdownContext, indent = 0): string {
+	const content = node.children
+		.map(child => getBlockNodeMarkdown(child, context, indent + getDepthPadding(1).length).replace(/\n+$/, ''))
+		.join('\n\n');
+	return `[^${node.label ?? node.identifier}]: ${continueLines(content, getDepthPadding(1))}`;
+}
+
+/**
+ * Function returns the markdown with a blank line at its end, for definitions which can't interrupt a paragraph.
+ */
+function addBlankLine(markdown: string): string {
+	const written = stripMarkers(markdown);
+	return written === '' || written.endsWith('\n\n') ? markdown : `${markdown.replace(/\n?$/, '\n')}\n`;
+}
+
+/**
+ * Function returns true if inline nodes have no text, only whitespace and breaks, styled or not.
+ */
+function isBlank(nodes: PhrasingContent[]): boolean {
+	return nodes.every(node => {
+		switch (node.type) {
+			case 'text':
+				return node.value.trim() === '';
+			case 'break':
+				return true;
+			case 'strong':
+			case 'emphasis':
+			case 'delete':
+			case 'inlineStyle':
+				return isBlank(node.children);
+			default:
+				return false;
+		}
+	});
+}
+
+/**
+ * Function returns the markdown of a tree written with a context.
+ * Formatted markdown has a blank line between its blocks and ends with a single newline,
+ * its empty unstyled paragraphs are left out as the blank lines stand for them.
+ */
+function writeMarkdown(tree: Root, context: MarkdownContext): string {
+	const format = context.config?.format;
+	const nodes = format
+		? tree.children.filter(node => node.type !== 'paragraph' || (node.data?.blockType ?? 'unstyled') !== 'unstyled' || !isBlank(node.children))
+		: tree.children;
+	let markdown = '';
+	nodes.forEach((node, index) => {
+		const separated = format
+			? index > 0
+			: node.type === 'footnoteDefinition' && nodes[index - 1]?.type !== 'footnoteDefinition';
+		if (separated) markdown = addBlankLine(markdown);
+		markdown += getBlockNodeMarkdown(node, context);
+	});
+	// Definitions of the references are written last, after the footnotes whose links they include
+	const definitions = getDefinitionsMarkdown(context);
+	markdown = definitions ? addBlankLine(markdown) + definitions : markdown;
+	return format ? markdown.replace(FINAL_NEWLINES, newlines => `${getMarkers(newlines)}\n`) : markdown;
+}
+
+/**
+ * The function will generate markdown for an mdast tree, as made by draftToMdast.
+ * Footnote definitions and the definitions of reference links are written after a blank line.
+ */
+export function mdastToMarkdown(tree: Root, config: Config = {}): string {
+	return writeMarkdown(tree, getMarkdownContext(config));
+}
+
+/**
+ * The function will generate markdown for an mdast tree along with its source map,
+ * mapping the markdown back to the blocks and text offsets of the positions of the nodes.
+ * Output offsets are moved by shift, the length of text written before the markdown.
+ */
+export function mdastToMarkdownWithSourceMap(
+	tree: Root,
+	config: Config = {},
+	shift = 0,
+): {markdown: string; sourceMap: SourceMap} {
+	const sourceMap: SourceMapCollector = {nodes: []};
+	const marked = writeMarkdown(tree, {...getMarkdownContext(config), sourceMap});
+	const {output, sourceMap: map} = getSourceMap(marked, sourceMap, config?.offsetUnit ?? 'code-point', shift);
+	return {markdown: output, sourceMap: map};
+}
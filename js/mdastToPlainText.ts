@@ -0,0 +1,113 @@
+import type {BlockContent, FootnoteDefinition, List, PhrasingContent, Root} from './mdast.ts';
+
+/**
+ * How links are written in plain text: as their text, or as their text followed by their url in parentheses.
+ */
+export type PlainTextLinks = 'text' | 'text-url';
+
+export interface PlainTextOptions {
+	/** text by default */
+	links?: PlainTextLinks;
+	/** Written between blocks, a newline by default */
+	blockSeparator?: string;
+	/** Bullet of unordered list items, - by default */
+	bullet?: string;
+}
+
+/**
+ * Indent of each level of nested lists.
+ */
+const LIST_INDENT = '  ';
+
+/**
+ * The function returns plain text for inline nodes, without the markup of styles.
+ * Images are written as their alt text and footnote references as their label in brackets.
+ * Links to the headings of the document, and links whose text is their url, are always written as their text.
+ */
+export function getPhrasingText(nodes: PhrasingContent[], options: PlainTextOptions = {}): string {
+	return nodes.map(node => {
+		switch (node.type) {
+			case 'text':
+			case 'inlineCode':
+			case 'html':
+				return node.value;
+			case 'break':
+				return '\n';
+			case 'image':
+				return node.alt ?? '';
+			case 'footnoteReference':
+				return `[${node.label ?? node.identifier}]`;
+			case 'link': {
+				const text = getPhrasingText(node.children, options);
+				if (options.links !== 'text-url' || !node.url || node.url.startsWith('#') || node.url === text) return text;
+				return text ? `${text} (${node.url})` : node.url;
+			}
+			default:
+				return getPhrasingText(node.children, options);
+		}
+	}).join('');
+}
+
+/**
+ * Function returns the lines of a list, each item prefixed by its bullet or number and nested lists indented.
+ * Items made only to hold a deeper list have no line of their own.
+ */
+function getListLines(list: List, indent: string, options: PlainTextOptions): string[] {
+	const start = list.ordered ? list.start ?? 1 : 1;
+	return list.children.flatMap((item, index) => {
+		const marker = list.ordered ? `${start + index}.` : options.bullet ?? '-';
+		const [first, ...rest] = item.children;
+		const lines: string[] = [];
+		if (first?.type === 'paragraph') {
+			// Lines after a break are aligned with the text of the item
+			const continuation = `\n${indent}${' '.repeat(marker.length + 1)}`;
+			lines.push(`${indent}${marker} ${getPhrasingText(first.children, options).replace(/\n/g, continuation)}`);
+		}
+		(first?.type === 'paragraph' ? rest : item.children).forEach(child => {
+			lines.push(...(child.type === 'list'
+				? getListLines(child, indent + LIST_INDENT, options)
+				: getBlockLines(child, options).map(line => indent + LIST_INDENT + line)));
+		});
+		return lines;
+	});
+}
+
+/**
+ * Function returns the text of a footnote definition, after its label in brackets.
+ */
+function getFootnoteText(node: FootnoteDefinition, options: PlainTextOptions): string {
+	return `[${node.label ?? node.identifier}] ${node.children.flatMap(child => getBlockLines(child, options)).join(' ')}`;
+}
+
+/**
+ * Function returns the text of a block node, one entry for each block written.
+ * Quotes are written as their paragraphs, code and html as they are.
+ */
+function getBlockLines(node: BlockContent, options: PlainTextOptions): string[] {
+	switch (node.type) {
+		case 'paragraph':
+		case 'heading':
+			return [getPhrasingText(node.children, options)];
+		case 'blockquote':
+			return node.children.flatMap(child => getBlockLines(child, options));
+		case 'code':
+		case 'html':
+			return [node.value];
+		case 'list':
+			return getListLines(node, '', options);
+		case 'footnoteDefinition':
+			return [getFootnoteText(node, options)];
+	}
+}
+
+/**
+ * The function will generate plain text for an mdast tree, as made by draftToMdast.
+ * Blocks are joined by the block separator, and footnote definitions are written last.
+ */
+export function mdastToPlainText(tree: Root, options: PlainTextOptions = {}): string {
+	const blocks = tree.children.filter(node => node.type !== 'footnoteDefinition');
+	const footnotes = tree.children.filter(node => node.type === 'footnoteDefinition');
+	return [...blocks, ...footnotes]
+		.flatMap(node => getBlockLines(node, options))
+		.join(options.blockSeparator ?? '\n');
+}
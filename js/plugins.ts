@@ -0,0 +1,268 @@
+import type {Block, Config, CustomEntityTransform, Entity, EntityMap, Section} from './index.ts';
+import type {BlockContent, Heading, ListItem, PhrasingContent, Position, Root} from './mdast.ts';
+import {isList} from './common.ts';
+import {escapeHtml} from './escape.ts';
+import type {Flavor} from './flavors.ts';
+
+export type OutputTarget = 'markdown' | 'html' | 'text';
+
+/**
+ * What a block hook can see of the block and its surroundings.
+ */
+export interface BlockHookContext {
+	/** Index of the block in the content */
+	index: number;
+	blocks: Block[];
+	previous?: Block;
+	next?: Block;
+	depth: number;
+	position: Position;
+	entityMap: EntityMap;
+	target: OutputTarget;
+	flavor: Flavor;
+	config: Config;
+}
+
+/**
+ * What an entity hook can see of the entity, the section of the block it covers and the output.
+ * Atomic blocks have a section covering the whole block.
+ */
+export interface EntityHookContext {
+	block: Block;
+	section: Section;
+	position: Position;
+	target: OutputTarget;
+	flavor: Flavor;
+	config: Config;
+	/** Function returns the markdown or html of the text nodes of the entity */
+	getText: (nodes: PhrasingContent[]) => string;
+	/**
+	 * Function adds a footnote definition at the end of the tree and returns its identifier.
+	 * Footnotes are numbered unless they're given a label, a label already defined reuses its footnote.
+	 */
+	addFootnote: (children: BlockContent[], label?: string) => string;
+}
+
+export interface InlineStyleHookContext {
+	block: Block;
+	position: Position;
+	target: OutputTarget;
+	flavor: Flavor;
+	config: Config;
+}
+
+export interface TreeHookContext {
+	target: OutputTarget;
+	flavor: Flavor;
+	config: Config;
+}
+
+export interface PostProcessContext {
+	target: OutputTarget;
+	config: Config;
+}
+
+/**
+ * A plugin renders custom blocks, entities and inline styles, and post-processes the written text.
+ * Hooks run in the order of the plugins, the first one returning a node wins and
+ * undefined leaves the node to the next plugin. The built-in rendering comes last, as the default plugins.
+ */
+export interface Plugin {
+	name: string;
+	/** Inline styles handled by the plugin, which are kept in inlineStyle nodes like the built-in ones */
+	styles?: string[];
+	/** Keep the whitespace at the edges of the styles of the plugin, which is moved out of other styles for delimiters to flank */
+	keepWhitespace?: boolean;
+	/**
+	 * Function returns the node of a block, given the nodes of its content.
+	 * A list item is added to the list at the depth of the block, and null leaves the block out.
+	 */
+	block?: (block: Block, children: PhrasingContent[], context: BlockHookContext) => BlockContent | ListItem | null | undefined;
+	/** Function returns the nodes of an entity, given the nodes of its text */
+	entity?: (entity: Entity, children: PhrasingContent[], context: EntityHookContext) => PhrasingContent[] | undefined;
+	/** Function returns the nodes of an inline style, given the nodes it applies to */
+	inlineStyle?: (
+		style: string,
+		children: PhrasingContent[],
+		context: InlineStyleHookContext,
+	) => PhrasingContent[] | undefined;
+	/** Function changes the mdast tree once its blocks and footnotes are built, before the heading ids are added */
+	transformTree?: (tree: Root, context: TreeHookContext) => void;
+	/** Function returns the written markdown or html after post-processing, every plugin gets the output of the previous one */
+	postProcess?: (output: string, context: PostProcessContext) => string;
+}
+
+const HEADING_TYPES = ['header-one', 'header-two', 'header-three', 'header-four', 'header-five', 'header-six'];
+
+/**
+ * Function returns the title of a link or image entity, if its data has one.
+ */
+function getTitle(entity: Entity): string | undefined {
+	return typeof entity.data.title === 'string' ? entity.data.title : undefined;
+}
+
+/**
+ * Plugin for the LINK, MENTION, IMAGE, EMBEDDED_LINK and FOOTNOTE entities.
+ * The text of a footnote is followed by its marker, the body of the footnote is taken from the text in its data.
+ */
+export const entityPlugin: Plugin = {
+	name: 'entity',
+	entity(entity, children, {position, target, flavor, addFootnote}) {
+		switch (entity.type) {
+			case 'LINK':
+			case 'MENTION':
+				return [{type: 'link', url: entity.data.url as string, title: getTitle(entity), children, position}];
+			case 'IMAGE':
+				return [{
+					type: 'image',
+					url: entity.data.src as string,
+					alt: entity.data.alt as string || '',
+					title: getTitle(entity),
+					position,
+				}];
+			case 'EMBEDDED_LINK': {
+				const src = entity.data.src as string;
+				if (target === 'text' || (target === 'markdown' && !flavor.html)) {
+					// Without html the embed is written as a link to it
+					return [{type: 'link', url: src, children: [{type: 'text', value: src, position}], position}];
+				}
+				const attributes = `width="${escapeHtml(String(entity.data.width))}" height="${
+					escapeHtml(String(entity.data.height))
+				}" src="${escapeHtml(String(src))}" frameBorder="0" allowFullScreen`;
+				return [{
+					type: 'html',
+					value: target === 'html' ? `<iframe ${attributes}></iframe>` : `<iframe ${attributes} />`,
+					position,
+				}];
+			}
+			case 'FOOTNOTE': {
+				const body = typeof entity.data.text === 'string' ? entity.data.text : '';
+				const label = typeof entity.data.label === 'string' && entity.data.label ? entity.data.label : undefined;
+				// The body isn't text of the block, so it has no position
+				const identifier = addFootnote([{type: 'paragraph', children: [{type: 'text', value: body}]}], label);
+				return [...children, {type: 'footnoteReference', identifier, label: identifier, position}];
+			}
+			default:
+				return undefined;
+		}
+	},
+};
+
+/**
+ * Plugin nesting the BOLD, ITALIC and STRIKETHROUGH styles in their mdast nodes.
+ * Other styles are kept in inlineStyle nodes.
+ */
+export const inlineStylePlugin: Plugin = {
+	name: 'inline-style',
+	inlineStyle(style, children, {position}) {
+		switch (style) {
+			case 'BOLD':
+				return [{type: 'strong', children, position}];
+			case 'ITALIC':
+				return [{type: 'emphasis', children, position}];
+			case 'STRIKETHROUGH':
+				return [{type: 'delete', children, position}];
+			default:
+				return [{type: 'inlineStyle', style, children, position}];
+		}
+	},
+};
+
+export const headingPlugin: Plugin = {
+	name: 'heading',
+	block(block, children, {position}) {
+		const depth = HEADING_TYPES.indexOf(block.type) + 1;
+		if (depth === 0) return undefined;
+		return {type: 'heading', depth: depth as Heading['depth'], children, position, data: {blockType: block.type}};
+	},
+};
+
+export const blockquotePlugin: Plugin = {
+	name: 'blockquote',
+	block(block, children, {position}) {
+		if (block.type !== 'blockquote') return undefined;
+		return {type: 'blockquote', children: [{type: 'paragraph', children, position}], position, data: {blockType: block.type}};
+	},
+};
+
+export const listPlugin: Plugin = {
+	name: 'list',
+	block(block, children, {position}) {
+		if (!isList(block.type)) return undefined;
+		return {
+			type: 'listItem',
+			spread: false,
+			children: [{type: 'paragraph', children, position}],
+			position,
+			data: {blockType: block.type},
+		};
+	},
+};
+
+/**
+ * Plugin writing any other block as a paragraph, the prefix of its type is taken from the blockTypesMapping.
+ */
+export const paragraphPlugin: Plugin = {
+	name: 'paragraph',
+	block(block, children, {position}) {
+		return {type: 'paragraph', children, position, data: {blockType: block.type}};
+	},
+};
+
+/**
+ * The plugins for the built-in rendering, run after the plugins of the config.
+ */
+export const defaultPlugins: Plugin[] = [
+	entityPlugin,
+	inlineStylePlugin,
+	headingPlugin,
+	blockquotePlugin,
+	listPlugin,
+	paragraphPlugin,
+];
+
+/**
+ * Function returns a plugin running a customEntityTransform with the text of the entity.
+ * The output it returns is kept in an html node.
+ */
+export function getCustomEntityPlugin(customEntityTransform: CustomEntityTransform): Plugin {
+	return {
+		name: 'custom-entity-transform',
+		entity(entity, children, {position, getText}) {
+			const html = customEntityTransform(entity, getText(children));
+			return typeof html === 'undefined' ? undefined : [{type: 'html', value: html, position}];
+		},
+	};
+}
+
+/**
+ * Function returns the plugins of a config in the order their hooks run:
+ * the customEntityTransform, the plugins of the config and the default plugins.
+ */
+export function getPlugins(config: Config): Plugin[] {
+	const plugins = [...(config?.plugins ?? []), ...defaultPlugins];
+	return typeof config?.customEntityTransform === 'function'
+		? [getCustomEntityPlugin(config.customEntityTransform), ...plugins]
+		: plugins;
+}
+
+/**
+ * Function returns the inline styles handled by plugins.
+ */
+export function getPluginStyles(plugins: Plugin[]): string[] {
+	return [...new Set(plugins.flatMap(plugin => plugin.styles ?? []))];
+}
+
+/**
+ * Function returns the inline styles of plugins keeping the whitespace at their edges.
+ */
+export function getWhitespaceStyles(plugins: Plugin[]): string[] {
+	return getPluginStyles(plugins.filter(plugin => plugin.keepWhitespace));
+}
+
+/**
+ * Function returns the written output after the postProcess hooks of the plugins.
+ */
+export function postProcessOutput(output: string, plugins: Plugin[], context: PostProcessContext): string {
+	return plugins.reduce((text, plugin) => (plugin.postProcess ? plugin.postProcess(text, context) : text), output);
+}
@@ -0,0 +1,262 @@
+import type {OffsetUnit} from './index.ts';
+import type {MdastNode, Position} from './mdast.ts';
+
+/**
+ * What a mapping was made from: a block, the section of an entity, the section of an inline style,
+ * or text, whose offsets are mapped character by character.
+ */
+export type SourceMappingKind = 'block' | 'entity' | 'style' | 'text';
+
+/**
+ * A span of the output and the text of the block it was written from.
+ */
+export interface SourceMapping {
+	kind: SourceMappingKind;
+	/** mdast type of the node written */
+	type: string;
+	/** Inline style of style mappings */
+	style?: string;
+	blockKey: string;
+	/** Offsets in the text of the block, in the offset unit of the content */
+	start: number;
+	end: number;
+	/** Offsets in the output, in UTF-16 code units, spanning prefixes, escapes and delimiters */
+	outputStart: number;
+	outputEnd: number;
+	/** Output offset of each text offset from start to end, for text mappings */
+	offsets?: number[];
+}
+
+export interface SourceLocation {
+	blockKey: string;
+	offset: number;
+}
+
+export interface SourceMap {
+	/** Mappings in the order they're written in, containers before their content */
+	mappings: SourceMapping[];
+	/** Function returns the block and text offset an output offset was written from, or undefined for generated output */
+	toSource: (outputOffset: number) => SourceLocation | undefined;
+	/** Function returns the output offset a text offset of a block was written at, or undefined if it isn't written */
+	toOutput: (blockKey: string, offset: number) => number | undefined;
+}
+
+/**
+ * A node marked in the output, with the text it was written from for text mappings.
+ */
+interface MarkedNode {
+	kind: SourceMappingKind;
+	node: MdastNode;
+	position: Position;
+	/** Text written verbatim, as in code, instead of escaped */
+	verbatim?: boolean;
+	value?: string;
+}
+
+/**
+ * The nodes marked while writing an output.
+ */
+export interface SourceMapCollector {
+	nodes: MarkedNode[];
+}
+
+/**
+ * Markers written around marked nodes, made of private use characters: `\uE000id\uE001` opens a node
+ * and `\uE002id\uE003` closes it. They're removed from the output the source map is made for.
+ */
+const MARKER = /\uE000(\d+)\uE001|\uE002(\d+)\uE003/g;
+
+/**
+ * Source of a marker in a regular expression, for the writer to skip markers.
+ */
+export const MARKER_SOURCE = '(?:\\uE000\\d+\\uE001|\\uE002\\d+\\uE003)';
+
+/**
+ * Function returns text without markers.
+ */
+export function stripMarkers(text: string): string {
+	return text.includes('\uE000') || text.includes('\uE002') ? text.replace(MARKER, '') : text;
+}
+
+/**
+ * Function returns the markdown of a node wrapped in markers, if a source map is collected.
+ * Nodes spanning several blocks, like lists and joined quotes, aren't marked, the nodes of their blocks are.
+ */
+export function markNode(
+	collector: SourceMapCollector | undefined,
+	node: MdastNode,
+	kind: SourceMappingKind,
+	markdown: string,
+	text?: {value: string; verbatim?: boolean},
+): string {
+	const {position} = node;
+	if (!collector || !position || position.start.blockKey !== position.end.blockKey) return markdown;
+	const id = collector.nodes.length;
+	collector.nodes.push({kind, node, position, value: text?.value, verbatim: text?.verbatim});
+	return `\uE000${id}\uE001${markdown}\uE002${id}\uE003`;
+}
+
+/**
+ * Function returns the units of text in an offset unit, code points or UTF-16 code units.
+ */
+function getUnits(text: string, offsetUnit: OffsetUnit): string[] {
+	return offsetUnit === 'code-point' ? [...text] : text.split('');
+}
+
+const ENTITY = /^&(?:#(\d+)|#x([\da-f]+)|(\w+));/i;
+
+const NAMED_ENTITIES: Record<string, string> = {amp: '&', lt: '<', gt: '>', quot: '"', nbsp: ' '};
+
+/**
+ * Function returns the character of an html entity, or undefined for unknown entities.
+ */
+function decodeEntity(entity: RegExpExecArray): string | undefined {
+	const [, decimal, hex, name] = entity;
+	if (name !== undefined) return NAMED_ENTITIES[name.toLowerCase()];
+	return String.fromCodePoint(decimal !== undefined ? Number(decimal) : parseInt(hex, 16));
+}
+
+/**
+ * Function returns the output offset of each text offset of a text written escaped, aligning the two.
+ * A unit is matched as an html entity, as itself or backslash-escaped, any other output is skipped one character at a time.
+ */
+function alignText(units: string[], output: string, outputStart: number): number[] {
+	const offsets = [outputStart];
+	let cursor = 0;
+	units.forEach(unit => {
+		const entity = ENTITY.exec(output.substring(cursor, cursor + 12));
+		if (entity && decodeEntity(entity) === unit) {
+			cursor += entity[0].length;
+		} else if (output.startsWith(unit, cursor)) {
+			cursor += unit.length;
+		} else if (output[cursor] === '\\' && output.startsWith(unit, cursor + 1)) {
+			cursor += unit.length + 1;
+		} else {
+			cursor += entity ? entity[0].length : 1;
+		}
+		cursor = Math.min(cursor, output.length);
+		offsets.push(outputStart + cursor);
+	});
+	return offsets;
+}
+
+/**
+ * Function returns the mapping of a marked node, once its span of the output is known.
+ */
+function getMapping(marked: MarkedNode, output: string, outputStart: number, outputEnd: number, offsetUnit: OffsetUnit): SourceMapping {
+	const {node, kind, position} = marked;
+	const mapping: SourceMapping = {
+		kind,
+		type: node.type,
+		blockKey: position.start.blockKey,
+		start: position.start.column - 1,
+		end: position.end.column - 1,
+		outputStart,
+		outputEnd,
+	};
+	if (node.type === 'inlineStyle') mapping.style = node.style;
+	if (marked.value !== undefined) {
+		const written = output.substring(outputStart, outputEnd);
+		const units = getUnits(marked.value, offsetUnit);
+		if (marked.verbatim) {
+			// Code is written as it is, inside its fence
+			const index = Math.max(0, written.indexOf(marked.value));
+			const lengths = units.map(unit => unit.length);
+			mapping.offsets = [outputStart + index];
+			lengths.forEach(length => mapping.offsets?.push((mapping.offsets.at(-1) as number) + length));
+		} else {
+			mapping.offsets = alignText(units, written, outputStart);
+		}
+	}
+	return mapping;
+}
+
+/**
+ * Function returns the output without markers, and the source map of the nodes marked in it.
+ * Output offsets are moved by shift, for text written before the output.
+ */
+export function getSourceMap(
+	marked: string,
+	collector: SourceMapCollector,
+	offsetUnit: OffsetUnit,
+	shift = 0,
+): {output: string; sourceMap: SourceMap} {
+	const output = stripMarkers(marked);
+	const starts = new Map<number, number>();
+	const mappings: (SourceMapping | undefined)[] = new Array(collector.nodes.length);
+	let removed = 0;
+	for (const match of marked.matchAll(MARKER)) {
+		const offset = (match.index as number) - removed;
+		removed += match[0].length;
+		if (match[1] !== undefined) {
+			starts.set(Number(match[1]), offset);
+		} else {
+			const id = Number(match[2]);
+			mappings[id] = getMapping(collector.nodes[id], output, starts.get(id) ?? offset, offset, offsetUnit);
+		}
+	}
+	const sorted = mappings
+		.filter((mapping): mapping is SourceMapping => mapping !== undefined)
+		.map(mapping => shift === 0 ? mapping : {
+			...mapping,
+			outputStart: mapping.outputStart + shift,
+			outputEnd: mapping.outputEnd + shift,
+			offsets: mapping.offsets?.map(offset => offset + shift),
+		})
+		.sort((a, b) => a.outputStart - b.outputStart || b.outputEnd - a.outputEnd);
+	return {output, sourceMap: createSourceMap(sorted)};
+}
+
+/**
+ * Function returns the innermost of the mappings containing an offset, by the length of the span.
+ */
+function getInnermost(
+	mappings: SourceMapping[],
+	contains: (mapping: SourceMapping) => boolean,
+	length: (mapping: SourceMapping) => number,
+): SourceMapping | undefined {
+	return mappings.filter(contains).reduce<SourceMapping | undefined>(
+		(innermost, mapping) => (innermost === undefined || length(mapping) <= length(innermost) ? mapping : innermost),
+		undefined,
+	);
+}
+
+/**
+ * Function returns a source map for mappings sorted by their output span.
+ * Offsets in text are mapped character by character, other offsets to the start of their innermost mapping.
+ */
+export function createSourceMap(mappings: SourceMapping[]): SourceMap {
+	return {
+		mappings,
+		toSource(outputOffset) {
+			const mapping = getInnermost(
+				mappings,
+				({outputStart, outputEnd}) => outputStart <= outputOffset && outputOffset < outputEnd,
+				// Text mappings are preferred over others of the same span
+				({outputStart, outputEnd, offsets}) => (outputEnd - outputStart) * 2 + (offsets ? 0 : 1),
+			);
+			if (!mapping) return undefined;
+			const {offsets} = mapping;
+			let index = 0;
+			if (offsets) {
+				while (index + 1 < offsets.length && offsets[index + 1] <= outputOffset) index += 1;
+			}
+			return {blockKey: mapping.blockKey, offset: mapping.start + index};
+		},
+		toOutput(blockKey, offset) {
+			const length = ({start, end, offsets}: SourceMapping): number => (end - start) * 2 + (offsets ? 0 : 1);
+			// An offset at the end of a mapping belongs to the one starting there, unless it ends the text
+			const mapping = getInnermost(
+				mappings,
+				mapping => mapping.blockKey === blockKey && mapping.start <= offset && offset < mapping.end,
+				length,
+			) ?? getInnermost(
+				mappings,
+				mapping => mapping.blockKey === blockKey && mapping.start <= offset && offset === mapping.end,
+				length,
+			);
+			if (!mapping) return undefined;
+			return mapping.offsets?.[offset - mapping.start] ?? mapping.outputStart;
+		},
+	};
+}
@@ -0,0 +1,157 @@
+import type {Config} from './index.ts';
+import type {BlockAttributes, Heading, List, ListItem, PhrasingContent, Root} from './mdast.ts';
+
+/**
+ * Where the table of contents is written: in place of a block with the text `[TOC]`, or at the top of the document.
+ * Placeholder blocks are left as they are when the table is written at the top.
+ */
+export interface TableOfContentsOptions {
+	position?: 'placeholder' | 'top';
+	/** Shallowest heading level listed, 1 by default */
+	minDepth?: number;
+	/** Deepest heading level listed, 6 by default */
+	maxDepth?: number;
+}
+
+/**
+ * A heading of the document, as listed in the table of contents.
+ */
+export interface HeadingOutlineEntry {
+	level: number;
+	text: string;
+	slug: string;
+	/** Key of the block of the heading, undefined for headings without a position */
+	blockKey?: string;
+}
+
+const TOC_PLACEHOLDER = '[TOC]';
+
+/**
+ * Function returns the text of a heading as GitHub reads it for its slug, without markup and images.
+ */
+function getHeadingText(nodes: PhrasingContent[]): string {
+	return nodes.map(node => {
+		switch (node.type) {
+			case 'text':
+			case 'inlineCode':
+				return node.value;
+			case 'break':
+				return ' ';
+			case 'image':
+			case 'html':
+			case 'footnoteReference':
+				return '';
+			default:
+				return getHeadingText(node.children);
+		}
+	}).join('');
+}
+
+/**
+ * Function returns the slug GitHub makes for the text of a heading: lowercased, without punctuation and symbols,
+ * and with spaces replaced by hyphens. A slug already used is followed by a count, as in `slug-1`.
+ */
+export function getSlug(text: string, occurrences: Map<string, number>): string {
+	const base = text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '').replace(/ /g, '-');
+	let slug = base;
+	while (occurrences.has(slug)) {
+		const count = (occurrences.get(base) ?? 0) + 1;
+		occurrences.set(base, count);
+		slug = `${base}-${count}`;
+	}
+	occurrences.set(slug, 0);
+	return slug;
+}
+
+/**
+ * Function returns the headings of the tree with their outline entry.
+ * An id a heading has from its block data is used as its slug.
+ */
+function getHeadings(tree: Root): {node: Heading; entry: HeadingOutlineEntry}[] {
+	const headings = tree.children.filter((node): node is Heading => node.type === 'heading');
+	const occurrences = new Map<string, number>();
+	headings.forEach(node => {
+		const id = node.data?.attributes?.id;
+		if (id !== undefined) occurrences.set(id, 0);
+	});
+	return headings.map(node => {
+		const text = getHeadingText(node.children).trim();
+		return {
+			node,
+			entry: {
+				level: node.depth,
+				text,
+				slug: node.data?.attributes?.id ?? getSlug(text, occurrences),
+				blockKey: node.position?.start.blockKey,
+			},
+		};
+	});
+}
+
+/**
+ * Function returns the outline of the headings of an mdast tree, as made by draftToMdast, in document order.
+ */
+export function getHeadingOutline(tree: Root): HeadingOutlineEntry[] {
+	return getHeadings(tree).map(({entry}) => entry);
+}
+
+/**
+ * Function returns the nested lists of the table of contents, linking to the slugs of the headings.
+ * A heading deeper than the previous one is nested in its item, skipped levels don't add a list.
+ */
+function getTableOfContents(outline: HeadingOutlineEntry[]): List {
+	const toc: List = {type: 'list', ordered: false, spread: false, children: []};
+	const stack: {list: List; level: number}[] = [{list: toc, level: outline[0].level}];
+	outline.forEach(({level, text, slug}) => {
+		while (stack.length > 1 && level < stack[stack.length - 1].level) stack.pop();
+		const parent = stack[stack.length - 1];
+		const last = parent.list.children[parent.list.children.length - 1];
+		if (level > parent.level && last) {
+			const list: List = {type: 'list', ordered: false, spread: false, children: []};
+			last.children.push(list);
+			stack.push({list, level});
+		}
+		const item: ListItem = {
+			type: 'listItem',
+			spread: false,
+			children: [{type: 'paragraph', children: [{type: 'link', url: `#${slug}`, children: [{type: 'text', value: text}]}]}],
+			data: {blockType: 'unordered-list-item'},
+		};
+		stack[stack.length - 1].list.children.push(item);
+	});
+	return toc;
+}
+
+/**
+ * Function returns true for a paragraph with only the text of the table of contents placeholder.
+ */
+function isPlaceholder(node: Root['children'][number]): boolean {
+	return node.type === 'paragraph' && getHeadingText(node.children).trim() === TOC_PLACEHOLDER;
+}
+
+/**
+ * Function adds the ids of the headings and the table of contents to the tree, as set by headingIds and tableOfContents.
+ * Headings get an id when either is set, so the links of the table of contents have a target in html.
+ */
+export function addHeadingAnchors(tree: Root, config: Config): void {
+	const options = config?.tableOfContents;
+	if (!config?.headingIds && !options) return;
+	const headings = getHeadings(tree);
+	headings.forEach(({node, entry}) => {
+		const attributes: BlockAttributes = node.data?.attributes ?? {classes: [], style: {}, attributes: {}};
+		node.data = {...node.data, attributes: {...attributes, id: entry.slug}};
+	});
+	if (!options) return;
+	const minDepth = options.minDepth ?? 1;
+	const maxDepth = options.maxDepth ?? 6;
+	const outline = headings.map(({entry}) => entry).filter(({level}) => level >= minDepth && level <= maxDepth);
+	if (options.position === 'top') {
+		if (outline.length > 0) tree.children.unshift(getTableOfContents(outline));
+		return;
+	}
+	// Placeholders are left out when there are no headings to list
+	tree.children = tree.children.flatMap(node => {
+		if (!isPlaceholder(node)) return [node];
+		return outline.length > 0 ? [getTableOfContents(outline)] : [];
+	});
+}
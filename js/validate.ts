@@ -0,0 +1,257 @@
+import type {Block, EditorContent, Entity, EntityMap, EntityRange, InlineStyleRange, OffsetUnit, Range} from './index.ts';
+import {getTextLength} from './common.ts';
+
+/**
+ * A problem found in editorContent, located by its path and the block it's in.
+ */
+export interface ValidationIssue {
+	/** Path to the invalid value, like `blocks[2].entityRanges[0]` */
+	path: string;
+	blockKey?: string;
+	range?: Range;
+	reason: string;
+	/** What lenient conversion does with the value */
+	repair: 'skipped' | 'clamped' | 'defaulted';
+}
+
+/**
+ * Error thrown by strict conversion when editorContent isn't valid.
+ */
+export class EditorContentError extends Error {
+	issues: ValidationIssue[];
+
+	constructor(issues: ValidationIssue[]) {
+		super(`Invalid editor content: ${issues.map(issue => `${issue.path}: ${issue.reason}`).join('; ')}`);
+		this.name = 'EditorContentError';
+		this.issues = issues;
+	}
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOffset(value: unknown): value is number {
+	return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Function returns true if an offset in UTF-16 code units is between the two units of a surrogate pair.
+ */
+function isInsidePair(text: string, offset: number): boolean {
+	return /[\uD800-\uDBFF]/.test(text[offset - 1] ?? '') && /[\uDC00-\uDFFF]/.test(text[offset] ?? '');
+}
+
+/**
+ * Function checks a range against the length of the text of its block.
+ * It returns the range clamped to the text, or undefined if it has to be skipped.
+ * For offsets in UTF-16 code units, the text is given and ends inside a surrogate pair are moved to the start of the character.
+ */
+function checkRange<R extends Range>(
+	range: R,
+	textLength: number,
+	path: string,
+	blockKey: string | undefined,
+	issues: ValidationIssue[],
+	text?: string,
+): R | undefined {
+	if (!isObject(range) || !isOffset(range.offset) || !isOffset(range.length)) {
+		issues.push({path, blockKey, reason: 'offset and length must be non-negative integers', repair: 'skipped'});
+		return undefined;
+	}
+	const {offset, length} = range;
+	if (offset + length > textLength) {
+		const clampedLength = Math.max(0, textLength - offset);
+		issues.push({
+			path,
+			blockKey,
+			range: {offset, length},
+			reason: `range ends at ${offset + length}, past the end of the text at ${textLength}`,
+			repair: clampedLength > 0 ? 'clamped' : 'skipped',
+		});
+		return clampedLength > 0 ? {...range, length: clampedLength} : undefined;
+	}
+	if (text !== undefined && (isInsidePair(text, offset) || isInsidePair(text, offset + length))) {
+		const start = isInsidePair(text, offset) ? offset - 1 : offset;
+		const end = isInsidePair(text, offset + length) ? offset + length - 1 : offset + length;
+		issues.push({
+			path,
+			blockKey,
+			range: {offset, length},
+			reason: 'range splits a surrogate pair',
+			repair: end > start ? 'clamped' : 'skipped',
+		});
+		return end > start ? {...range, offset: start, length: end - start} : undefined;
+	}
+	return range;
+}
+
+/**
+ * Function checks an entity of the entity map.
+ */
+function checkEntity(entity: unknown, path: string, issues: ValidationIssue[]): entity is Entity {
+	if (!isObject(entity) || typeof entity.type !== 'string') {
+		issues.push({path, reason: 'entity must be an object with a string type', repair: 'skipped'});
+		return false;
+	}
+	if (entity.data !== undefined && !isObject(entity.data)) {
+		issues.push({path: `${path}.data`, reason: 'entity data must be an object', repair: 'defaulted'});
+	}
+	return true;
+}
+
+/**
+ * Function checks a block, returning a repaired copy of it or undefined if it has to be skipped.
+ */
+function checkBlock(
+	block: unknown,
+	path: string,
+	entityMap: EntityMap,
+	offsetUnit: OffsetUnit,
+	issues: ValidationIssue[],
+): Block | undefined {
+	if (!isObject(block)) {
+		issues.push({path, reason: 'block must be an object', repair: 'skipped'});
+		return undefined;
+	}
+	const key = typeof block.key === 'string' ? block.key : '';
+	const blockKey = key || undefined;
+	const defaulted = (field: string, reason: string): void => {
+		issues.push({path: `${path}.${field}`, blockKey, reason, repair: 'defaulted'});
+	};
+	if (typeof block.key !== 'string') defaulted('key', 'key must be a string');
+	let text = '';
+	if (typeof block.text === 'string') {
+		text = block.text;
+	} else {
+		defaulted('text', 'text must be a string');
+	}
+	const textLength = getTextLength(text, offsetUnit);
+	const pairsText = offsetUnit === 'utf-16' ? text : undefined;
+	let type = 'unstyled';
+	if (typeof block.type === 'string') {
+		type = block.type;
+	} else {
+		defaulted('type', 'type must be a string');
+	}
+	let depth = 0;
+	if (isOffset(block.depth)) {
+		depth = block.depth;
+	} else if (block.depth !== undefined) {
+		defaulted('depth', 'depth must be a non-negative integer');
+	}
+	let data = block.data as Record<string, unknown> | null | undefined;
+	if (data !== undefined && data !== null && !isObject(data)) {
+		defaulted('data', 'data must be an object');
+		data = {};
+	}
+
+	const inlineStyleRanges: InlineStyleRange[] = [];
+	if (Array.isArray(block.inlineStyleRanges)) {
+		(block.inlineStyleRanges as InlineStyleRange[]).forEach((range, index) => {
+			const rangePath = `${path}.inlineStyleRanges[${index}]`;
+			if (isObject(range) && typeof range.style !== 'string') {
+				issues.push({path: rangePath, blockKey, reason: 'style must be a string', repair: 'skipped'});
+				return;
+			}
+			const checked = checkRange(range, textLength, rangePath, blockKey, issues, pairsText);
+			if (checked) inlineStyleRanges.push(checked);
+		});
+	} else if (text.length > 0 || block.inlineStyleRanges !== undefined) {
+		defaulted('inlineStyleRanges', 'inlineStyleRanges must be an array');
+	}
+
+	const entityRanges: EntityRange[] = [];
+	if (Array.isArray(block.entityRanges)) {
+		(block.entityRanges as EntityRange[]).forEach((range, index) => {
+			const rangePath = `${path}.entityRanges[${index}]`;
+			if (isObject(range) && !Object.hasOwn(entityMap, String(range.key))) {
+				issues.push({
+					path: rangePath,
+					blockKey,
+					range: {offset: range.offset as number, length: range.length as number},
+					reason: `entity ${String(range.key)} isn't in the entity map`,
+					repair: 'skipped',
+				});
+				return;
+			}
+			const checked = checkRange(range, textLength, rangePath, blockKey, issues, pairsText);
+			if (!checked) return;
+			const overlapping = entityRanges.find(r => checked.offset < r.offset + r.length && r.offset < checked.offset + checked.length);
+			if (overlapping) {
+				issues.push({
+					path: rangePath,
+					blockKey,
+					range: {offset: checked.offset, length: checked.length},
+					reason: `overlaps the range of entity ${overlapping.key}`,
+					repair: 'skipped',
+				});
+				return;
+			}
+			entityRanges.push(checked);
+		});
+	} else if (text.length > 0 || block.entityRanges !== undefined) {
+		defaulted('entityRanges', 'entityRanges must be an array');
+	}
+
+	return {
+		...(block as unknown as Block),
+		key,
+		text,
+		type,
+		depth,
+		data,
+		inlineStyleRanges,
+		entityRanges,
+	};
+}
+
+/**
+ * Function checks editorContent against the Block, EntityRange, InlineStyleRange and Entity types.
+ * It returns the issues found, along with a repaired copy of the content
+ * where invalid parts are clamped, defaulted or skipped.
+ * Range offsets are checked in offsetUnit, the unit of the content.
+ */
+export function repairEditorContent(
+	editorContent: unknown,
+	offsetUnit: OffsetUnit = 'code-point',
+): {content: EditorContent; issues: ValidationIssue[]} {
+	const issues: ValidationIssue[] = [];
+	if (!isObject(editorContent)) {
+		issues.push({path: '', reason: 'editor content must be an object', repair: 'defaulted'});
+		return {content: {blocks: [], entityMap: {}}, issues};
+	}
+
+	const entityMap: EntityMap = {};
+	if (isObject(editorContent.entityMap)) {
+		Object.entries(editorContent.entityMap).forEach(([key, entity]) => {
+			const path = `entityMap[${JSON.stringify(key)}]`;
+			if (checkEntity(entity, path, issues)) {
+				entityMap[key] = isObject(entity.data) ? entity : {...entity, data: {}};
+			}
+		});
+	} else {
+		issues.push({path: 'entityMap', reason: 'entityMap must be an object', repair: 'defaulted'});
+	}
+
+	const blocks: Block[] = [];
+	if (Array.isArray(editorContent.blocks)) {
+		editorContent.blocks.forEach((block, index) => {
+			const checked = checkBlock(block, `blocks[${index}]`, entityMap, offsetUnit, issues);
+			if (checked) blocks.push(checked);
+		});
+	} else {
+		issues.push({path: 'blocks', reason: 'blocks must be an array', repair: 'defaulted'});
+	}
+
+	return {content: {...editorContent, blocks, entityMap}, issues};
+}
+
+/**
+ * Function checks editorContent against the Block, EntityRange, InlineStyleRange and Entity types,
+ * returning the issues found. An empty array means the content is valid.
+ * Range offsets are checked in offsetUnit, the unit of the content.
+ */
+export function validateEditorContent(editorContent: unknown, offsetUnit: OffsetUnit = 'code-point'): ValidationIssue[] {
+	return repairEditorContent(editorContent, offsetUnit).issues;
+}